@@ -0,0 +1,350 @@
+/**
+ * Deployment Plan Derivation
+ *
+ * The unified manifest follows "presence implies enabled": every section that is
+ * present turns into one or more CDK stacks. This module computes that list once so
+ * CDK apps and tooling agree on which stacks exist, where they deploy and in which
+ * order.
+ *
+ * Placement rules:
+ * - Management stacks (organization, identityCenter, domains, saasEdge) deploy to the
+ *   `mgmt` environment, or to the first environment when there is no `mgmt`
+ * - Workload stacks (saasWorkload-derived, networking, security, ...) deploy to every
+ *   environment that does not receive the management stacks (every environment of a
+ *   manifest without management sections, or the only environment of a
+ *   single-environment manifest)
+ * - `infrastructure` and `githubOidc` deploy to their `targetEnvironments`
+ *
+ * Stack names come from {@link generateStackName} and honor `naming.skipEnvironmentName`.
+ *
+ * @example
+ * ```typescript
+ * const plan = planDeployment(config);
+ * for (const env of plan.environments) {
+ *   console.log(env.environment, env.stacks.map((stack) => stack.stackName));
+ * }
+ * ```
+ */
+
+import { generateStackName } from '../naming';
+import type { UnifiedAppConfig } from '../config';
+
+/**
+ * A stack that would be synthesized for the manifest
+ */
+export interface PlannedStack {
+  /** Unique identifier within the plan: `{environment}/{component}` */
+  id: string;
+  /** CloudFormation stack name */
+  stackName: string;
+  /** Component name used in the stack name (e.g., 'Vpc', 'IdentityCenter') */
+  component: string;
+  /** Manifest section that enables the stack (e.g., 'infrastructure') */
+  section: string;
+  /** Environment key from the manifest */
+  environment: string;
+  /** Target AWS account ID */
+  accountId: string;
+  /** Target AWS region */
+  region: string;
+  /** IDs of the stacks that must be deployed first */
+  dependsOn: string[];
+}
+
+/**
+ * Stacks deployed to a single environment
+ */
+export interface EnvironmentDeploymentPlan {
+  /** Environment key from the manifest */
+  environment: string;
+  /** Target AWS account ID */
+  accountId: string;
+  /** Target AWS region */
+  region: string;
+  /** Stacks in deployment order (dependencies within the environment come first) */
+  stacks: PlannedStack[];
+}
+
+/**
+ * Every stack derived from a unified manifest
+ */
+export interface DeploymentPlan {
+  /** Environments that receive at least one stack, in manifest order */
+  environments: EnvironmentDeploymentPlan[];
+  /** All stacks across environments */
+  stacks: PlannedStack[];
+}
+
+/**
+ * Where a component deploys
+ */
+type Placement = 'management' | 'workload' | ((config: UnifiedAppConfig) => string[] | undefined);
+
+/**
+ * How a manifest section turns into a stack
+ */
+interface StackRule {
+  /** Component name used in the stack name */
+  component: string;
+  /** Manifest section reported as the reason for the stack */
+  section: keyof UnifiedAppConfig;
+  /** Whether the manifest enables the component */
+  enabled: (config: UnifiedAppConfig) => boolean;
+  /** Environments the component deploys to */
+  placement: Placement;
+  /** Components in the same environment that must deploy first */
+  dependsOn?: string[];
+  /** Components in other environments that must deploy first */
+  dependsOnOtherEnvironments?: string[];
+}
+
+/**
+ * Whether any saasWorkload brand matches a predicate
+ */
+const anyBrand = (
+  config: UnifiedAppConfig,
+  predicate: (brand: NonNullable<UnifiedAppConfig['saasWorkload']>[number]) => boolean,
+): boolean => (config.saasWorkload ?? []).some(predicate);
+
+/**
+ * Stack rules in deployment order: every dependency appears before its dependents
+ *
+ * A stack is planned only for a section the manifest defines, or for a saasWorkload flag
+ * that documents the resource it creates (`webapp` → ECS service, `lambdaApi`,
+ * `eventHandlers`, `trialExpiryChecker` and `scheduledJobs` → Lambda functions,
+ * `webappS3`/`marketingS3` → S3 buckets, `secrets` → Secrets Manager entries).
+ * Dependencies only link stacks that consume another stack's resources.
+ */
+const STACK_RULES: StackRule[] = [
+  {
+    component: 'Organizations',
+    section: 'organization',
+    enabled: (config) => Boolean(config.organization),
+    placement: 'management',
+  },
+  {
+    component: 'IdentityCenter',
+    section: 'identityCenter',
+    enabled: (config) => Boolean(config.identityCenter),
+    placement: 'management',
+    // Assignments target the organization's accounts
+    dependsOn: ['Organizations'],
+  },
+  {
+    component: 'Domains',
+    section: 'domains',
+    enabled: (config) => Boolean(config.domains),
+    placement: 'management',
+  },
+  {
+    component: 'GitHubOidc',
+    section: 'githubOidc',
+    enabled: (config) => Boolean(config.githubOidc),
+    placement: (config) =>
+      config.githubOidc?.targets.flatMap((target) => target.targetEnvironments),
+  },
+  {
+    component: 'Networking',
+    section: 'networking',
+    enabled: (config) => Boolean(config.networking),
+    placement: 'workload',
+  },
+  {
+    component: 'Security',
+    section: 'security',
+    enabled: (config) => Boolean(config.security),
+    placement: 'workload',
+  },
+  {
+    component: 'Compliance',
+    section: 'compliance',
+    enabled: (config) => Boolean(config.compliance),
+    placement: 'workload',
+  },
+  {
+    component: 'Vpc',
+    section: 'infrastructure',
+    enabled: (config) => Boolean(config.infrastructure),
+    placement: (config) => config.infrastructure?.targetEnvironments,
+  },
+  {
+    component: 'Alb',
+    section: 'infrastructure',
+    enabled: (config) => Boolean(config.infrastructure),
+    placement: (config) => config.infrastructure?.targetEnvironments,
+    // The load balancer is created in the VPC
+    dependsOn: ['Vpc'],
+  },
+  {
+    component: 'VpcOrigin',
+    section: 'infrastructure',
+    enabled: (config) => Boolean(config.infrastructure),
+    placement: (config) => config.infrastructure?.targetEnvironments,
+    // The CloudFront VPC origin points at the load balancer
+    dependsOn: ['Alb'],
+  },
+  {
+    component: 'OriginZones',
+    section: 'originZones',
+    enabled: (config) => Boolean(config.originZones),
+    placement: 'workload',
+  },
+  {
+    component: 'Secrets',
+    section: 'secrets',
+    enabled: (config) =>
+      Boolean(config.secrets) || anyBrand(config, (brand) => Boolean(brand.secrets?.length)),
+    placement: 'workload',
+  },
+  {
+    component: 'Aurora',
+    section: 'aurora',
+    enabled: (config) => Boolean(config.aurora?.enabled),
+    placement: 'workload',
+  },
+  {
+    component: 'DynamoDB',
+    section: 'dynamodb',
+    enabled: (config) => Boolean(config.dynamodb),
+    placement: 'workload',
+  },
+  {
+    component: 'Storage',
+    section: 'staticHosting',
+    enabled: (config) =>
+      Boolean(config.staticHosting) ||
+      anyBrand(config, (brand) => Boolean(brand.webappS3 || brand.marketingS3)),
+    placement: 'workload',
+  },
+  {
+    component: 'Ecs',
+    section: 'compute',
+    enabled: (config) =>
+      Boolean(config.compute?.ecs) || anyBrand(config, (brand) => Boolean(brand.webapp)),
+    placement: 'workload',
+    // Services register with the load balancer's target groups
+    dependsOn: ['Alb'],
+  },
+  {
+    component: 'Lambda',
+    section: 'lambda',
+    enabled: (config) =>
+      Boolean(config.lambda?.functions?.length) ||
+      anyBrand(config, (brand) =>
+        Boolean(
+          brand.lambdaApi ||
+          brand.eventHandlers ||
+          brand.trialExpiryChecker ||
+          brand.scheduledJobs?.length,
+        ),
+      ),
+    placement: 'workload',
+    // lambdaApi functions connect to Aurora through its RDS Proxy
+    dependsOn: ['Aurora'],
+  },
+  {
+    component: 'SaasEdge',
+    section: 'saasEdge',
+    enabled: (config) => Boolean(config.saasEdge?.length),
+    placement: 'management',
+    // Distributions use the hosted zones and certificates of the registered domains, and
+    // the VPC origins and buckets of the workload accounts as origins
+    dependsOn: ['Domains'],
+    dependsOnOtherEnvironments: ['VpcOrigin', 'Storage'],
+  },
+];
+
+/**
+ * Derive every stack a unified manifest enables, per environment
+ *
+ * saasWorkload brands contribute to the shared workload stacks (Secrets, Storage, Ecs,
+ * Lambda) rather than getting stacks of their own. The deprecated
+ * `saasApps` section is not planned.
+ *
+ * @param config - Validated unified manifest
+ * @returns Stacks grouped by environment, with their dependencies
+ * @throws Error if an environment that receives stacks is not a valid environment code
+ */
+export function planDeployment(config: UnifiedAppConfig): DeploymentPlan {
+  const environmentKeys = Object.keys(config.environments);
+  const hasManagementStacks = STACK_RULES.some(
+    (rule) => rule.placement === 'management' && rule.enabled(config),
+  );
+  const managementEnvironment = hasManagementStacks
+    ? environmentKeys.includes('mgmt')
+      ? 'mgmt'
+      : environmentKeys[0]
+    : undefined;
+  const otherEnvironments = environmentKeys.filter((key) => key !== managementEnvironment);
+  const workloadEnvironments = otherEnvironments.length > 0 ? otherEnvironments : environmentKeys;
+
+  const resolvePlacement = (placement: Placement): string[] => {
+    if (placement === 'management') return managementEnvironment ? [managementEnvironment] : [];
+    if (placement === 'workload') return workloadEnvironments;
+    const targets = placement(config) ?? workloadEnvironments;
+    return environmentKeys.filter((key) => targets.includes(key));
+  };
+
+  // Decide which components deploy where
+  const placements = new Map<string, Set<string>>();
+  for (const rule of STACK_RULES) {
+    if (rule.enabled(config)) {
+      placements.set(rule.component, new Set(resolvePlacement(rule.placement)));
+    }
+  }
+  const isPlaced = (component: string, environment: string): boolean =>
+    placements.get(component)?.has(environment) ?? false;
+
+  const environments: EnvironmentDeploymentPlan[] = [];
+  for (const environment of environmentKeys) {
+    const { accountId, region } = config.environments[environment];
+    const stacks: PlannedStack[] = [];
+
+    for (const rule of STACK_RULES) {
+      if (!isPlaced(rule.component, environment)) continue;
+
+      const dependsOn = [
+        ...(rule.dependsOn ?? [])
+          .filter((component) => isPlaced(component, environment))
+          .map((component) => stackId(environment, component)),
+        ...(rule.dependsOnOtherEnvironments ?? []).flatMap((component) =>
+          environmentKeys
+            .filter((other) => other !== environment && isPlaced(component, other))
+            .map((other) => stackId(other, component)),
+        ),
+      ];
+
+      stacks.push({
+        id: stackId(environment, rule.component),
+        stackName: generateStackName(
+          {
+            company: config.naming.company,
+            project: config.naming.project,
+            environment,
+          },
+          rule.component,
+          { skipEnvironment: config.naming.skipEnvironmentName },
+        ),
+        component: rule.component,
+        section: rule.section,
+        environment,
+        accountId,
+        region,
+        dependsOn,
+      });
+    }
+
+    if (stacks.length > 0) {
+      environments.push({ environment, accountId, region, stacks });
+    }
+  }
+
+  return { environments, stacks: environments.flatMap((plan) => plan.stacks) };
+}
+
+/**
+ * Build the plan-wide identifier of a stack
+ */
+function stackId(environment: string, component: string): string {
+  return `${environment}/${component}`;
+}
@@ -0,0 +1,391 @@
+/**
+ * Per-Environment Configuration Resolution
+ *
+ * The unified manifest describes every environment at once: shared `defaults`,
+ * brand definitions in `saasWorkload`, Lambda functions, and a free-form
+ * `environments.<env>.config` record. This module turns that into the effective
+ * configuration for a single environment so CDK apps do not have to re-implement
+ * the merge rules.
+ *
+ * Precedence (lowest to highest):
+ * 1. Built-in schema defaults (e.g. webapp cpu 256, Lambda timeout 30)
+ * 2. Manifest `defaults` section
+ * 3. Environment `config.defaults` overrides
+ * 4. Values set on the item itself (scheduled job or Lambda function)
+ * 5. Environment per-item overrides (`config.saasWorkload.<brand>`, `config.lambda.<name>`)
+ *
+ * @example Environment overrides
+ * ```yaml
+ * environments:
+ *   nprd:
+ *     accountId: "466279485605"
+ *     region: us-east-1
+ *     config:
+ *       defaults:
+ *         lambda:
+ *           memorySize: 512
+ *       saasWorkload:
+ *         savvue:
+ *           ecs:
+ *             webapp:
+ *               desiredCount: 2
+ *           scheduledJobs:
+ *             auto-matcher:
+ *               enabled: false
+ *       lambda:
+ *         api-core:
+ *           reservedConcurrentExecutions: 5
+ * ```
+ */
+
+import { z } from 'zod';
+import {
+  AuroraDefaultsSchema,
+  EcsApiDefaultsSchema,
+  EcsWebappDefaultsSchema,
+  LambdaDefaultsSchema,
+  ManifestContextSchema,
+  WorkloadDefaultsSchema,
+  deepMergeManifests,
+} from '../config';
+import type {
+  AuroraDefaults,
+  EcsApiDefaults,
+  EcsWebappDefaults,
+  LambdaDefaults,
+  ManifestContext,
+  SaasWorkloadApp,
+  ScheduledJobConfig,
+  UnifiedAppConfig,
+} from '../config';
+
+/**
+ * Default ECR image tag for Lambda functions
+ */
+const DEFAULT_IMAGE_TAG = 'latest';
+
+/**
+ * Partial scheduled job settings that an environment may override
+ */
+const ScheduledJobOverrideSchema = z.object({
+  schedule: z.string().min(1).optional(),
+  memorySize: z.number().min(128).max(10240).optional(),
+  timeout: z.number().min(1).max(900).optional(),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * Shape of the known keys in `environments.<env>.config`
+ * Unknown keys are kept in `ResolvedEnvironmentConfig.config` untouched.
+ */
+const EnvironmentOverridesSchema = z.object({
+  defaults: WorkloadDefaultsSchema.deepPartial().optional(),
+  saasWorkload: z
+    .record(
+      z.object({
+        ecs: z
+          .object({
+            webapp: EcsWebappDefaultsSchema.partial().optional(),
+            api: EcsApiDefaultsSchema.partial().optional(),
+          })
+          .optional(),
+        lambda: LambdaDefaultsSchema.partial().optional(),
+        aurora: AuroraDefaultsSchema.partial().optional(),
+        scheduledJobs: z.record(ScheduledJobOverrideSchema).optional(),
+      }),
+    )
+    .optional(),
+  lambda: z
+    .record(
+      z.object({
+        memorySize: z.number().min(128).max(10240).optional(),
+        timeout: z.number().min(1).max(900).optional(),
+        reservedConcurrentExecutions: z.number().min(0).optional(),
+        environment: z.record(z.string()).optional(),
+        imageTag: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export type EnvironmentOverrides = z.infer<typeof EnvironmentOverridesSchema>;
+
+/**
+ * Fully resolved defaults for one environment
+ */
+export interface ResolvedDefaults {
+  ecs: {
+    webapp: EcsWebappDefaults;
+    api: EcsApiDefaults;
+  };
+  lambda: LambdaDefaults;
+  aurora: AuroraDefaults;
+}
+
+/**
+ * Scheduled job with every optional setting resolved
+ */
+export interface ResolvedScheduledJob extends ScheduledJobConfig {
+  memorySize: number;
+  timeout: number;
+  enabled: boolean;
+}
+
+/**
+ * saasWorkload brand with the effective settings for one environment
+ */
+export interface ResolvedWorkloadService extends Omit<SaasWorkloadApp, 'scheduledJobs' | 'stripe'> {
+  /** ECS task sizing for the services this brand runs (only present for enabled services) */
+  ecs: {
+    webapp?: EcsWebappDefaults;
+    api?: EcsApiDefaults;
+  };
+  /** Lambda settings for the brand API (present when lambdaApi is true) */
+  lambda?: LambdaDefaults;
+  /**
+   * Aurora settings for the brand database (present when the `aurora` section is enabled
+   * and lists the brand in `databases`)
+   */
+  aurora?: AuroraDefaults;
+  /** Scheduled jobs with defaults applied */
+  scheduledJobs: ResolvedScheduledJob[];
+  /** Stripe configuration for this environment only */
+  stripe?: { priceIdMonthly?: string; priceIdAnnual?: string };
+}
+
+/**
+ * Lambda function with every optional setting resolved
+ */
+export interface ResolvedLambdaFunction {
+  name: string;
+  memorySize: number;
+  timeout: number;
+  reservedConcurrentExecutions?: number;
+  environment: Record<string, string>;
+  ecrRepositoryName: string;
+  imageTag: string;
+  eventBridgeBusName?: string;
+}
+
+/**
+ * Effective configuration for a single environment
+ */
+export interface ResolvedEnvironmentConfig {
+  /** Environment key from the manifest (e.g., 'nprd') */
+  environment: string;
+  /** Account/region/environment context for the environment */
+  context: ManifestContext;
+  /** Naming configuration from the manifest */
+  naming: UnifiedAppConfig['naming'];
+  /** Defaults after environment overrides */
+  defaults: ResolvedDefaults;
+  /** saasWorkload brands with defaults and overrides applied */
+  saasWorkload: ResolvedWorkloadService[];
+  /** Lambda functions with defaults and overrides applied */
+  lambdaFunctions: ResolvedLambdaFunction[];
+  /** The raw environment config record (including keys this module does not interpret) */
+  config: Record<string, unknown>;
+}
+
+/**
+ * Resolve the effective configuration for one environment of a unified manifest
+ *
+ * @param config - Validated unified manifest
+ * @param environment - Environment key from the `environments` section (e.g., 'nprd')
+ * @returns Resolved configuration including the manifest context
+ * @throws Error if the environment is not defined, is not a valid environment code,
+ *   or its `config` overrides are malformed
+ *
+ * @example
+ * ```typescript
+ * const result = await initializeApp('src/manifest.yaml');
+ * if (result.success) {
+ *   const nprd = resolveEnvironmentConfig(result.data, 'nprd');
+ *   console.log(nprd.context.accountId, nprd.saasWorkload[0].ecs.webapp?.desiredCount);
+ * }
+ * ```
+ */
+export function resolveEnvironmentConfig(
+  config: UnifiedAppConfig,
+  environment: string,
+): ResolvedEnvironmentConfig {
+  const envConfig = config.environments[environment];
+  if (!envConfig) {
+    throw new Error(
+      `Environment '${environment}' is not defined in the manifest. ` +
+        `Available environments: ${Object.keys(config.environments).join(', ')}`,
+    );
+  }
+
+  const contextResult = ManifestContextSchema.safeParse({
+    accountId: envConfig.accountId,
+    region: envConfig.region,
+    environment,
+  });
+  if (!contextResult.success) {
+    throw new Error(
+      `Invalid context for environment '${environment}': ${formatIssues(contextResult.error)}`,
+    );
+  }
+
+  const rawConfig = envConfig.config ?? {};
+  const overridesResult = EnvironmentOverridesSchema.safeParse(rawConfig);
+  if (!overridesResult.success) {
+    throw new Error(
+      `Invalid overrides in environments.${environment}.config: ${formatIssues(overridesResult.error)}`,
+    );
+  }
+  const overrides = overridesResult.data;
+
+  const defaults = resolveDefaults(config, overrides, environment);
+  const databases = new Set(config.aurora?.enabled ? config.aurora.databases : []);
+
+  return {
+    environment,
+    context: contextResult.data,
+    naming: config.naming,
+    defaults,
+    saasWorkload: (config.saasWorkload ?? []).map((app) =>
+      resolveWorkloadService(app, defaults, overrides, environment, databases),
+    ),
+    lambdaFunctions: resolveLambdaFunctions(config, defaults, overrides, environment),
+    config: rawConfig,
+  };
+}
+
+/**
+ * Merge built-in defaults, manifest defaults and environment default overrides
+ */
+function resolveDefaults(
+  config: UnifiedAppConfig,
+  overrides: EnvironmentOverrides,
+  environment: string,
+): ResolvedDefaults {
+  const merged = deepMergeManifests(config.defaults ?? {}, overrides.defaults ?? {}) as NonNullable<
+    EnvironmentOverrides['defaults']
+  >;
+
+  const lambda = LambdaDefaultsSchema.parse(merged.lambda ?? {});
+
+  return {
+    ecs: {
+      webapp: EcsWebappDefaultsSchema.parse(merged.ecs?.webapp ?? {}),
+      api: EcsApiDefaultsSchema.parse(merged.ecs?.api ?? {}),
+    },
+    lambda: withEventBridgeBusName(lambda, environment),
+    aurora: AuroraDefaultsSchema.parse(merged.aurora ?? {}),
+  };
+}
+
+/**
+ * Apply defaults and environment overrides to a single saasWorkload brand
+ */
+function resolveWorkloadService(
+  app: SaasWorkloadApp,
+  defaults: ResolvedDefaults,
+  overrides: EnvironmentOverrides,
+  environment: string,
+  databases: Set<string>,
+): ResolvedWorkloadService {
+  const { scheduledJobs = [], stripe, ...rest } = app;
+  const brandOverrides = overrides.saasWorkload?.[app.name];
+  const serviceTypes = new Set((app.services ?? []).map((service) => service.type));
+
+  const hasWebapp = app.webapp === true || serviceTypes.has('webapp');
+  const hasEcsApi = serviceTypes.has('api');
+  const hasDatabase = databases.has(app.name);
+
+  const lambda = withEventBridgeBusName(
+    { ...defaults.lambda, ...brandOverrides?.lambda },
+    environment,
+  );
+
+  return {
+    ...rest,
+    ecs: {
+      ...(hasWebapp && { webapp: { ...defaults.ecs.webapp, ...brandOverrides?.ecs?.webapp } }),
+      ...(hasEcsApi && { api: { ...defaults.ecs.api, ...brandOverrides?.ecs?.api } }),
+    },
+    ...(app.lambdaApi && { lambda }),
+    ...(hasDatabase && { aurora: { ...defaults.aurora, ...brandOverrides?.aurora } }),
+    scheduledJobs: scheduledJobs.map((job) =>
+      resolveScheduledJob(job, defaults, brandOverrides?.scheduledJobs?.[job.name]),
+    ),
+    ...(stripe?.[environment] && { stripe: stripe[environment] }),
+  };
+}
+
+/**
+ * Apply defaults and environment overrides to a scheduled job
+ */
+function resolveScheduledJob(
+  job: ScheduledJobConfig,
+  defaults: ResolvedDefaults,
+  override: z.infer<typeof ScheduledJobOverrideSchema> | undefined,
+): ResolvedScheduledJob {
+  return {
+    ...job,
+    schedule: override?.schedule ?? job.schedule,
+    memorySize: override?.memorySize ?? job.memorySize ?? defaults.lambda.memorySize,
+    timeout: override?.timeout ?? job.timeout ?? defaults.lambda.timeout,
+    enabled: override?.enabled ?? job.enabled ?? true,
+  };
+}
+
+/**
+ * Apply defaults and environment overrides to the top-level Lambda functions
+ */
+function resolveLambdaFunctions(
+  config: UnifiedAppConfig,
+  defaults: ResolvedDefaults,
+  overrides: EnvironmentOverrides,
+  environment: string,
+): ResolvedLambdaFunction[] {
+  const eventBridgeBusName =
+    substituteEnvironment(config.lambda?.eventBridgeBusName, environment) ??
+    defaults.lambda.eventBridgeBusName;
+
+  return (config.lambda?.functions ?? []).map((fn) => {
+    const override = overrides.lambda?.[fn.name];
+    const reservedConcurrentExecutions =
+      override?.reservedConcurrentExecutions ?? fn.reservedConcurrentExecutions;
+
+    return {
+      name: fn.name,
+      memorySize: override?.memorySize ?? fn.memorySize ?? defaults.lambda.memorySize,
+      timeout: override?.timeout ?? fn.timeout ?? defaults.lambda.timeout,
+      ...(reservedConcurrentExecutions !== undefined && { reservedConcurrentExecutions }),
+      environment: { ...fn.environment, ...override?.environment },
+      ecrRepositoryName: fn.ecrRepositoryName ?? fn.name,
+      imageTag: override?.imageTag ?? fn.imageTag ?? DEFAULT_IMAGE_TAG,
+      ...(eventBridgeBusName && { eventBridgeBusName }),
+    };
+  });
+}
+
+/**
+ * Substitute the environment into the Lambda defaults' event bus name, if there is one
+ */
+function withEventBridgeBusName(lambda: LambdaDefaults, environment: string): LambdaDefaults {
+  const { eventBridgeBusName, ...rest } = lambda;
+  const busName = substituteEnvironment(eventBridgeBusName, environment);
+  return busName === undefined ? rest : { ...rest, eventBridgeBusName: busName };
+}
+
+/**
+ * Replace the {env} placeholder with the environment key
+ */
+function substituteEnvironment(value: string | undefined, environment: string): string | undefined {
+  return value?.replace(/\{env\}/g, environment);
+}
+
+/**
+ * Format Zod issues as a single line
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.errors
+    .map((issue) =>
+      issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    )
+    .join('; ');
+}
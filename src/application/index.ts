@@ -6,11 +6,14 @@
  *
  * Key exports:
  * - initializeApp: Enhanced manifest loading with validation
+ * - resolveEnvironmentConfig: Effective configuration for a single environment
+ * - planDeployment: Stacks that the manifest enables, per environment
+ * - diffManifests: Semantic changes between two manifests
  * - Types: Application-specific type definitions
  *
  * @example
  * ```typescript
- * import { initializeApp } from '@codeiqlabs/aws-utils/application';
+ * import { initializeApp, resolveEnvironmentConfig } from '@codeiqlabs/aws-utils/application';
  *
  * // Load and validate manifest
  * const result = await initializeApp('src/manifest.yaml');
@@ -18,6 +21,9 @@
  * if (result.success) {
  *   // Use the unified config
  *   console.log(result.data.project, result.data.deployment);
+ *
+ *   // Resolve what a single environment actually looks like
+ *   const nprd = resolveEnvironmentConfig(result.data, 'nprd');
  * }
  * ```
  */
@@ -29,3 +35,22 @@ export type {
   ApplicationManifestResult,
   InitializeAppOptions,
 } from './manifest-loader';
+
+// Per-environment configuration resolution
+export { resolveEnvironmentConfig } from './environment-resolver';
+export type {
+  EnvironmentOverrides,
+  ResolvedDefaults,
+  ResolvedEnvironmentConfig,
+  ResolvedLambdaFunction,
+  ResolvedScheduledJob,
+  ResolvedWorkloadService,
+} from './environment-resolver';
+
+// Deployment plan derivation
+export { planDeployment } from './deployment-plan';
+export type { DeploymentPlan, EnvironmentDeploymentPlan, PlannedStack } from './deployment-plan';
+
+// Semantic manifest diff
+export { diffManifests } from './manifest-diff';
+export type { ManifestChange, ManifestChangeCategory, ManifestChangeKind } from './manifest-diff';
@@ -0,0 +1,681 @@
+/**
+ * Semantic Manifest Diff
+ *
+ * A textual diff of `manifest.yaml` shows which lines moved, not what the change
+ * means for the infrastructure. This module compares two validated manifests and
+ * describes each difference in the manifest's own terms:
+ * - stacks created, removed or moved to another account/region (via {@link planDeployment})
+ * - sections and environments added or removed
+ * - brands gaining or losing features, secrets and scheduled jobs
+ * - scheduled job settings (schedule, memory, timeout, ...)
+ * - Identity Center assignments granted or revoked
+ * - any other value, with its path
+ *
+ * Array items that carry a unique `name`, `key`, `domain`, `id` or `type` are matched
+ * by that identity, so reordering a list is not reported as a change.
+ *
+ * @example
+ * ```typescript
+ * for (const change of diffManifests(before, after)) {
+ *   console.log(change.kind, change.message);
+ * }
+ * // changed  Brand 'savvue' gains lambdaApi
+ * // changed  Scheduled job 'auto-matcher' of brand 'savvue': schedule changed from 'rate(1 hour)' to 'rate(30 minutes)'
+ * // added    Permission set 'ReadOnlyAccess' assigned to account 'prod' for user 'alice'
+ * // removed  Stack 'CodeIQLabs-SaaS-Prod-Alb-Stack' will be removed from prod (333333333333 / us-east-2)
+ * ```
+ */
+
+import type {
+  CompactAssignment,
+  SaasWorkloadApp,
+  ScheduledJobConfig,
+  SSOAssignmentConfig,
+  UnifiedAppConfig,
+} from '../config';
+import { planDeployment } from './deployment-plan';
+import type { PlannedStack } from './deployment-plan';
+
+/**
+ * Direction of a change
+ */
+export type ManifestChangeKind = 'added' | 'removed' | 'changed';
+
+/**
+ * What a change is about
+ */
+export type ManifestChangeCategory =
+  'stack' | 'section' | 'environment' | 'brand' | 'scheduledJob' | 'assignment' | 'value';
+
+/**
+ * A single semantic difference between two manifests
+ */
+export interface ManifestChange {
+  /** Whether something was added, removed or modified */
+  kind: ManifestChangeKind;
+  /** What the change is about */
+  category: ManifestChangeCategory;
+  /**
+   * Manifest path of the changed value (in the manifest that contains it: the new one
+   * for additions and changes, the old one for removals)
+   */
+  path: (string | number)[];
+  /** Human-readable description */
+  message: string;
+  /** Previous value, when there was one */
+  before?: unknown;
+  /** New value, when there is one */
+  after?: unknown;
+}
+
+/**
+ * Difference between two values found by the structural diff
+ */
+interface ValueChange {
+  kind: ManifestChangeKind;
+  /** Path with array indices */
+  path: (string | number)[];
+  /** Display path with array items named by their identity (e.g. `permissionSets[Admin]`) */
+  label: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Properties that identify an array item, in order of preference
+ */
+const IDENTITY_KEYS = ['name', 'key', 'domain', 'id', 'type'];
+
+/**
+ * saasWorkload flags that each enable a feature of the brand
+ */
+const BRAND_FEATURES = [
+  'webapp',
+  'lambdaApi',
+  'webappS3',
+  'marketingS3',
+  'eventHandlers',
+  'trialExpiryChecker',
+] as const;
+
+/**
+ * Sections compared by dedicated rules rather than the structural diff
+ */
+const SPECIAL_SECTIONS = new Set(['environments', 'saasWorkload']);
+
+/**
+ * Describe the semantic differences between two manifests
+ *
+ * Stack changes come first, then section, environment, brand, assignment and value
+ * changes in manifest order.
+ *
+ * @param before - Validated manifest before the change
+ * @param after - Validated manifest after the change
+ * @returns Every difference (empty when the manifests are equivalent)
+ * @throws Error if either manifest cannot be planned (see {@link planDeployment})
+ */
+export function diffManifests(before: UnifiedAppConfig, after: UnifiedAppConfig): ManifestChange[] {
+  return [
+    ...diffStacks(before, after),
+    ...diffSections(before, after),
+    ...diffEnvironments(before, after),
+    ...diffBrands(before.saasWorkload ?? [], after.saasWorkload ?? []),
+  ];
+}
+
+/**
+ * Compare the stacks each manifest deploys
+ */
+function diffStacks(before: UnifiedAppConfig, after: UnifiedAppConfig): ManifestChange[] {
+  const oldStacks = new Map(planDeployment(before).stacks.map((stack) => [stack.id, stack]));
+  const newStacks = new Map(planDeployment(after).stacks.map((stack) => [stack.id, stack]));
+  const changes: ManifestChange[] = [];
+
+  for (const [id, stack] of newStacks) {
+    const old = oldStacks.get(id);
+    if (!old) {
+      changes.push({
+        kind: 'added',
+        category: 'stack',
+        path: [stack.section],
+        message: `Stack '${stack.stackName}' will be created in ${describeTarget(stack)}`,
+        after: stack,
+      });
+    } else if (old.stackName !== stack.stackName) {
+      changes.push({
+        kind: 'changed',
+        category: 'stack',
+        path: [stack.section],
+        message: `Stack '${old.stackName}' will be replaced by '${stack.stackName}' in ${describeTarget(stack)}`,
+        before: old,
+        after: stack,
+      });
+    } else if (old.accountId !== stack.accountId || old.region !== stack.region) {
+      changes.push({
+        kind: 'changed',
+        category: 'stack',
+        path: [stack.section],
+        message: `Stack '${stack.stackName}' moves from ${describeTarget(old)} to ${describeTarget(stack)}`,
+        before: old,
+        after: stack,
+      });
+    }
+  }
+
+  for (const [id, stack] of oldStacks) {
+    if (!newStacks.has(id)) {
+      changes.push({
+        kind: 'removed',
+        category: 'stack',
+        path: [stack.section],
+        message: `Stack '${stack.stackName}' will be removed from ${describeTarget(stack)}`,
+        before: stack,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare every section except environments and saasWorkload
+ */
+function diffSections(before: UnifiedAppConfig, after: UnifiedAppConfig): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const oldConfig = before as Record<string, unknown>;
+  const newConfig = after as Record<string, unknown>;
+
+  for (const section of unionKeys(oldConfig, newConfig)) {
+    if (SPECIAL_SECTIONS.has(section)) continue;
+    const oldValue = oldConfig[section];
+    const newValue = newConfig[section];
+
+    if (oldValue === undefined || newValue === undefined) {
+      if (oldValue === newValue) continue;
+      const kind = oldValue === undefined ? 'added' : 'removed';
+      changes.push({
+        kind,
+        category: 'section',
+        path: [section],
+        message: `Section '${section}' ${kind}`,
+        before: oldValue,
+        after: newValue,
+      });
+      continue;
+    }
+
+    if (section === 'identityCenter') {
+      changes.push(...diffAssignments(before, after));
+      changes.push(
+        ...toValueChanges(
+          diffValues(
+            omit(before.identityCenter!, ['assignments']),
+            omit(after.identityCenter!, ['assignments']),
+            [section],
+            section,
+          ),
+        ),
+      );
+      continue;
+    }
+
+    changes.push(...toValueChanges(diffValues(oldValue, newValue, [section], section)));
+  }
+
+  return changes;
+}
+
+/**
+ * Compare environments by key
+ */
+function diffEnvironments(before: UnifiedAppConfig, after: UnifiedAppConfig): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+
+  for (const key of unionKeys(before.environments, after.environments)) {
+    const oldEnvironment = before.environments[key];
+    const newEnvironment = after.environments[key];
+    const path = ['environments', key];
+
+    if (!oldEnvironment || !newEnvironment) {
+      const environment = newEnvironment ?? oldEnvironment;
+      const kind = newEnvironment ? 'added' : 'removed';
+      changes.push({
+        kind,
+        category: 'environment',
+        path,
+        message: `Environment '${key}' ${kind} (${environment.accountId} / ${environment.region})`,
+        before: oldEnvironment,
+        after: newEnvironment,
+      });
+      continue;
+    }
+
+    changes.push(
+      ...toValueChanges(
+        diffValues(oldEnvironment, newEnvironment, path, `environments.${key}`),
+        'environment',
+      ),
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Compare saasWorkload brands by name
+ */
+function diffBrands(before: SaasWorkloadApp[], after: SaasWorkloadApp[]): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const oldBrands = new Map(before.map((brand, index) => [brand.name, { brand, index }]));
+  const newBrands = new Map(after.map((brand, index) => [brand.name, { brand, index }]));
+
+  for (const [name, { brand, index }] of newBrands) {
+    const old = oldBrands.get(name);
+    const path = ['saasWorkload', index];
+
+    if (!old) {
+      const features = BRAND_FEATURES.filter((feature) => brand[feature]);
+      changes.push({
+        kind: 'added',
+        category: 'brand',
+        path,
+        message: `Brand '${name}' added${features.length > 0 ? ` with ${features.join(', ')}` : ''}`,
+        after: brand,
+      });
+      continue;
+    }
+
+    for (const feature of BRAND_FEATURES) {
+      if (Boolean(old.brand[feature]) !== Boolean(brand[feature])) {
+        changes.push({
+          kind: 'changed',
+          category: 'brand',
+          path: [...path, feature],
+          message: `Brand '${name}' ${brand[feature] ? 'gains' : 'loses'} ${feature}`,
+          before: old.brand[feature],
+          after: brand[feature],
+        });
+      }
+    }
+
+    const oldSecrets = old.brand.secrets ?? [];
+    const newSecrets = brand.secrets ?? [];
+    for (const secret of newSecrets.filter((secret) => !oldSecrets.includes(secret))) {
+      changes.push({
+        kind: 'added',
+        category: 'brand',
+        path: [...path, 'secrets', newSecrets.indexOf(secret)],
+        message: `Brand '${name}' gains secret '${secret}'`,
+        after: secret,
+      });
+    }
+    for (const secret of oldSecrets.filter((secret) => !newSecrets.includes(secret))) {
+      changes.push({
+        kind: 'removed',
+        category: 'brand',
+        path: ['saasWorkload', old.index, 'secrets', oldSecrets.indexOf(secret)],
+        message: `Brand '${name}' loses secret '${secret}'`,
+        before: secret,
+      });
+    }
+
+    changes.push(
+      ...diffScheduledJobs(
+        name,
+        old.brand.scheduledJobs ?? [],
+        brand.scheduledJobs ?? [],
+        ['saasWorkload', old.index, 'scheduledJobs'],
+        [...path, 'scheduledJobs'],
+      ),
+    );
+
+    const otherKeys = [...BRAND_FEATURES, 'secrets', 'scheduledJobs'];
+    changes.push(
+      ...toValueChanges(
+        diffValues(
+          omit(old.brand, otherKeys),
+          omit(brand, otherKeys),
+          path,
+          `saasWorkload[${name}]`,
+        ),
+        'brand',
+      ),
+    );
+  }
+
+  for (const [name, { brand, index }] of oldBrands) {
+    if (!newBrands.has(name)) {
+      changes.push({
+        kind: 'removed',
+        category: 'brand',
+        path: ['saasWorkload', index],
+        message: `Brand '${name}' removed`,
+        before: brand,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the scheduled jobs of one brand by name
+ */
+function diffScheduledJobs(
+  brand: string,
+  before: ScheduledJobConfig[],
+  after: ScheduledJobConfig[],
+  oldPath: (string | number)[],
+  newPath: (string | number)[],
+): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const oldJobs = new Map(before.map((job) => [job.name, job]));
+  const newJobs = new Map(after.map((job) => [job.name, job]));
+
+  after.forEach((job, index) => {
+    const old = oldJobs.get(job.name);
+    if (!old) {
+      changes.push({
+        kind: 'added',
+        category: 'scheduledJob',
+        path: [...newPath, index],
+        message: `Brand '${brand}' gains scheduled job '${job.name}' (${job.schedule})`,
+        after: job,
+      });
+      return;
+    }
+
+    for (const change of diffValues(old, job, [...newPath, index], '')) {
+      const field = change.label.replace(/^\./, '');
+      changes.push({
+        kind: 'changed',
+        category: 'scheduledJob',
+        path: change.path,
+        message: `Scheduled job '${job.name}' of brand '${brand}': ${field} ${describeValueChange(change)}`,
+        before: change.before,
+        after: change.after,
+      });
+    }
+  });
+
+  before.forEach((job, index) => {
+    if (!newJobs.has(job.name)) {
+      changes.push({
+        kind: 'removed',
+        category: 'scheduledJob',
+        path: [...oldPath, index],
+        message: `Brand '${brand}' loses scheduled job '${job.name}'`,
+        before: job,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compare Identity Center assignments as (principal, permission set, account) triples
+ */
+function diffAssignments(before: UnifiedAppConfig, after: UnifiedAppConfig): ManifestChange[] {
+  const oldGrants = expandAssignments(before.identityCenter?.assignments ?? []);
+  const newGrants = expandAssignments(after.identityCenter?.assignments ?? []);
+  const changes: ManifestChange[] = [];
+
+  for (const [id, grant] of newGrants) {
+    if (!oldGrants.has(id)) {
+      changes.push({
+        kind: 'added',
+        category: 'assignment',
+        path: grant.path,
+        message: `Permission set '${grant.permissionSet}' assigned to account '${grant.account}' for ${grant.principal}`,
+        after: grant.assignment,
+      });
+    }
+  }
+  for (const [id, grant] of oldGrants) {
+    if (!newGrants.has(id)) {
+      changes.push({
+        kind: 'removed',
+        category: 'assignment',
+        path: grant.path,
+        message: `Permission set '${grant.permissionSet}' no longer assigned to account '${grant.account}' for ${grant.principal}`,
+        before: grant.assignment,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * One permission set granted to one principal in one account
+ */
+interface Grant {
+  principal: string;
+  permissionSet: string;
+  account: string;
+  path: (string | number)[];
+  assignment: SSOAssignmentConfig;
+}
+
+/**
+ * Expand assignments (including `targetKeys` lists) into grants keyed by their triple
+ */
+function expandAssignments(assignments: CompactAssignment[]): Map<string, Grant> {
+  const grants = new Map<string, Grant>();
+
+  assignments.forEach((assignment, index) => {
+    const principal = `${assignment.principalType === 'GROUP' ? 'group' : 'user'} '${assignment.principalKey ?? assignment.principalId}'`;
+    const accounts = assignment.targetKeys ?? [assignment.targetKey!];
+    const path = ['identityCenter', 'assignments', ...(assignment.source?.principal ?? [index])];
+
+    for (const account of accounts) {
+      grants.set(`${principal}\0${assignment.permissionSetName}\0${account}`, {
+        principal,
+        permissionSet: assignment.permissionSetName,
+        account,
+        path,
+        assignment,
+      });
+    }
+  });
+
+  return grants;
+}
+
+/**
+ * Structural diff of two values
+ *
+ * Objects are compared key by key. Arrays of scalars are compared as sets, arrays of
+ * objects with a unique identity property are matched by identity, arrays of equal
+ * length by position; anything else is reported as a single change.
+ */
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: (string | number)[],
+  label: string,
+): ValueChange[] {
+  if (isEqual(before, after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return unionKeys(before, after).flatMap((key) => {
+      const childPath = [...path, key];
+      const childLabel = `${label}.${key}`;
+      if (!(key in before) || before[key] === undefined) {
+        return after[key] === undefined
+          ? []
+          : [{ kind: 'added' as const, path: childPath, label: childLabel, after: after[key] }];
+      }
+      if (!(key in after) || after[key] === undefined) {
+        return [
+          { kind: 'removed' as const, path: childPath, label: childLabel, before: before[key] },
+        ];
+      }
+      return diffValues(before[key], after[key], childPath, childLabel);
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if ([...before, ...after].every((item) => !isPlainObject(item) && !Array.isArray(item))) {
+      return [
+        ...after
+          .map((item, index): ValueChange => ({
+            kind: 'added',
+            path: [...path, index],
+            label,
+            after: item,
+          }))
+          .filter((change) => !before.some((item) => isEqual(item, change.after))),
+        ...before
+          .map((item, index): ValueChange => ({
+            kind: 'removed',
+            path: [...path, index],
+            label,
+            before: item,
+          }))
+          .filter((change) => !after.some((item) => isEqual(item, change.before))),
+      ];
+    }
+
+    const identity = findIdentityKey(before, after);
+    if (identity) {
+      const index = (items: unknown[]) =>
+        new Map(
+          items.map((item, position) => [
+            (item as Record<string, unknown>)[identity],
+            { item, index: position },
+          ]),
+        );
+      const oldItems = index(before);
+      const newItems = index(after);
+      const changes: ValueChange[] = [];
+      for (const [id, { item, index }] of newItems) {
+        const old = oldItems.get(id);
+        const itemLabel = `${label}[${String(id)}]`;
+        changes.push(
+          ...(old
+            ? diffValues(old.item, item, [...path, index], itemLabel)
+            : [{ kind: 'added' as const, path: [...path, index], label: itemLabel, after: item }]),
+        );
+      }
+      for (const [id, { item, index }] of oldItems) {
+        if (!newItems.has(id)) {
+          changes.push({
+            kind: 'removed',
+            path: [...path, index],
+            label: `${label}[${String(id)}]`,
+            before: item,
+          });
+        }
+      }
+      return changes;
+    }
+
+    if (before.length === after.length) {
+      return after.flatMap((item, index) =>
+        diffValues(before[index], item, [...path, index], `${label}[${index}]`),
+      );
+    }
+  }
+
+  return [{ kind: 'changed', path, label, before, after }];
+}
+
+/**
+ * Find a property that uniquely identifies every item of both arrays
+ */
+function findIdentityKey(before: unknown[], after: unknown[]): string | undefined {
+  return IDENTITY_KEYS.find((key) =>
+    [before, after].every((items) => {
+      const ids = items.map((item) => (isPlainObject(item) ? item[key] : undefined));
+      return (
+        ids.every((id) => typeof id === 'string' || typeof id === 'number') &&
+        new Set(ids).size === ids.length
+      );
+    }),
+  );
+}
+
+/**
+ * Turn structural differences into manifest changes
+ */
+function toValueChanges(
+  changes: ValueChange[],
+  category: ManifestChangeCategory = 'value',
+): ManifestChange[] {
+  return changes.map((change) => ({
+    kind: change.kind,
+    category,
+    path: change.path,
+    message: `${change.label} ${describeValueChange(change)}`,
+    before: change.before,
+    after: change.after,
+  }));
+}
+
+/**
+ * Describe what happened to a value
+ */
+function describeValueChange(change: ValueChange): string {
+  switch (change.kind) {
+    case 'added':
+      return `added: ${formatValue(change.after)}`;
+    case 'removed':
+      return `removed (was ${formatValue(change.before)})`;
+    case 'changed':
+      return `changed from ${formatValue(change.before)} to ${formatValue(change.after)}`;
+  }
+}
+
+/**
+ * Format a value for a message, shortening large objects
+ */
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/**
+ * Describe where a stack deploys
+ */
+function describeTarget(stack: PlannedStack): string {
+  return `${stack.environment} (${stack.accountId} / ${stack.region})`;
+}
+
+/**
+ * Keys of both objects, in first-seen order
+ */
+function unionKeys(before: object, after: object): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])];
+}
+
+/**
+ * Copy an object without some of its properties
+ */
+function omit<T extends object>(value: T, keys: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+}
+
+/**
+ * Whether a value is a non-array object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality of plain values (properties set to undefined count as absent)
+ */
+function isEqual(before: unknown, after: unknown): boolean {
+  if (before === after) return true;
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return (
+      before.length === after.length && before.every((item, index) => isEqual(item, after[index]))
+    );
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    return unionKeys(before, after).every((key) => isEqual(before[key], after[key]));
+  }
+  return false;
+}
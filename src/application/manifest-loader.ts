@@ -6,8 +6,9 @@
  * functionality with additional validation and error handling.
  */
 
-import { loadManifest as coreLoadManifest } from '../config';
-import type { LoadManifestOptions, UnifiedAppConfig } from '../config';
+import { formatManifestIssues, loadManifest as coreLoadManifest } from '../config';
+import type { LoadManifestOptions, ManifestIssue, UnifiedAppConfig } from '../config';
+import type { EnvLogger } from '../helpers';
 
 /**
  * Unified manifest configuration (replaces legacy manifest types)
@@ -28,6 +29,10 @@ export interface ApplicationManifestResult {
   error?: string;
   /** Detailed error information (if failed) */
   details?: any;
+  /** Validation issues with file, line and column (if validation failed) */
+  issues?: ManifestIssue[];
+  /** Non-fatal validation issues with file, line and column (if successful) */
+  warnings?: ManifestIssue[];
   /** The file path that was loaded */
   filePath: string;
 }
@@ -38,9 +43,13 @@ export interface ApplicationManifestResult {
 export interface InitializeAppOptions extends LoadManifestOptions {
   /**
    * Whether to provide verbose error messages
+   * When enabled, validation issues and warnings are also passed to `logger` in a
+   * compiler-style format (file:line:column with a code frame)
    * Defaults to true for better developer experience
    */
   verbose?: boolean;
+  /** Logger for verbose issues and warnings (defaults to `console.error`) */
+  logger?: EnvLogger;
 }
 
 /**
@@ -67,7 +76,11 @@ export async function initializeApp(
   manifestPath: string = 'src/manifest.yaml',
   options: InitializeAppOptions = {},
 ): Promise<ApplicationManifestResult> {
-  const { verbose = true, ...loadOptions } = options;
+  const {
+    verbose = true,
+    logger = (message: string) => console.error(message),
+    ...loadOptions
+  } = options;
 
   try {
     // Load manifest using core loader
@@ -78,12 +91,17 @@ export async function initializeApp(
     });
 
     if (!result.success) {
+      if (verbose && result.issues?.length) {
+        logger(formatManifestIssues(result.issues, manifestPath));
+      }
+
       return {
         success: false,
         error: verbose
           ? `Failed to load manifest from '${manifestPath}': ${result.error}`
           : result.error,
         details: result.details,
+        issues: result.issues,
         filePath: manifestPath,
       };
     }
@@ -103,11 +121,16 @@ export async function initializeApp(
       }
     }
 
+    if (verbose && result.warnings?.length) {
+      logger(formatManifestIssues(result.warnings, manifestPath));
+    }
+
     return {
       success: true,
       data: result.data as ApplicationManifestConfig,
       type: result.type,
       filePath: manifestPath,
+      warnings: result.warnings,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
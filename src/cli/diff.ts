@@ -0,0 +1,169 @@
+/**
+ * `diff` command
+ *
+ * Compares two manifests and prints their semantic differences (see `diffManifests`):
+ * - `diff <before> <after>` compares two files
+ * - `diff <file> --ref=<git-ref>` compares the file as of a git ref with the working copy
+ *
+ * For `--ref`, the ref is checked out to a temporary worktree so that `$include`
+ * directives resolve against the files of that ref. The worktree is removed afterwards.
+ *
+ * Output formats:
+ * - `pretty`: one line per change, prefixed with `+`, `-` or `~`
+ * - `json`: the array of changes
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative, resolve } from 'path';
+import { diffManifests } from '../application/manifest-diff';
+import type { ManifestChange } from '../application/manifest-diff';
+import { formatIssuePath, formatManifestIssues, loadManifest } from '../config';
+import type { UnifiedAppConfig } from '../config';
+import { getManifestLoadOptions, MANIFEST_LOAD_OPTIONS, parseCommandArgs } from './options';
+
+/**
+ * Output formats supported by the diff command
+ */
+export type DiffFormat = 'pretty' | 'json';
+
+const FORMATS: readonly DiffFormat[] = ['pretty', 'json'];
+
+const KIND_SYMBOLS = { added: '+', removed: '-', changed: '~' } as const;
+
+/**
+ * Render manifest changes in the requested format
+ *
+ * @param changes - Changes returned by `diffManifests`
+ * @param format - Output format
+ * @returns The rendered output
+ */
+export function formatManifestChanges(changes: ManifestChange[], format: DiffFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(changes, null, 2);
+  }
+
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+
+  const lines = changes.map(
+    (change) => `${KIND_SYMBOLS[change.kind]} ${change.message}  (${formatIssuePath(change.path)})`,
+  );
+  const stacks = changes.filter((change) => change.category === 'stack');
+  const count = (kind: ManifestChange['kind']) =>
+    stacks.filter((change) => change.kind === kind).length;
+  const summary = `${changes.length} change(s); stacks: ${count('added')} to create, ${count('removed')} to remove, ${count('changed')} to update`;
+
+  return `${lines.join('\n')}\n\n${summary}`;
+}
+
+/**
+ * Load a manifest for the diff, printing its issues on failure
+ */
+async function loadForDiff(
+  filePath: string,
+  label: string,
+  options: { overlays: string[]; expandEnvVars: boolean },
+): Promise<UnifiedAppConfig | undefined> {
+  const result = await loadManifest(filePath, options);
+  if (result.success) return result.data;
+
+  console.error(
+    result.issues?.length
+      ? formatManifestIssues(result.issues, filePath)
+      : `❌ Failed to load ${label} manifest from '${filePath}': ${result.error}`,
+  );
+  return undefined;
+}
+
+/**
+ * Check out a git ref to a temporary worktree
+ *
+ * @param filePath - Manifest path in the working copy
+ * @param ref - Git ref (branch, tag or commit)
+ * @returns The manifest path inside the worktree and a function that removes the worktree
+ */
+function checkoutRef(filePath: string, ref: string): { path: string; cleanup: () => void } {
+  const absolutePath = resolve(filePath);
+  const git = (args: string[], cwd = dirname(absolutePath)) =>
+    execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+
+  const root = git(['rev-parse', '--show-toplevel']);
+  const tempDir = mkdtempSync(join(tmpdir(), 'manifest-diff-'));
+  const worktree = join(tempDir, 'tree');
+  try {
+    git(['worktree', 'add', '--detach', worktree, ref], root);
+  } catch (error) {
+    rmSync(tempDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    path: join(worktree, relative(root, absolutePath)),
+    cleanup: () => {
+      git(['worktree', 'remove', '--force', worktree], root);
+      rmSync(tempDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Run the diff command
+ *
+ * @param args - Command arguments (without the command name)
+ * @returns Process exit code
+ */
+export async function runDiffCommand(args: string[]): Promise<number> {
+  const usage = `diff <before> <after> | diff [file] --ref <git-ref> [--format ${FORMATS.join('|')}] [--overlay <path>...] [--no-env]`;
+  const parsed = parseCommandArgs(
+    args,
+    { ref: { type: 'string' }, format: { type: 'string' }, ...MANIFEST_LOAD_OPTIONS },
+    usage,
+  );
+  if (!parsed) return 2;
+
+  const format = (parsed.values.format ?? 'pretty') as DiffFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(`❌ Unknown format: ${format} (expected ${FORMATS.join('|')})`);
+    return 2;
+  }
+
+  const { ref } = parsed.values;
+  const files = parsed.positionals;
+  if (ref ? files.length > 1 : files.length !== 2) {
+    console.error(`❌ Usage: ${usage}`);
+    return 2;
+  }
+
+  const options = getManifestLoadOptions(parsed.values);
+
+  let checkout: { path: string; cleanup: () => void } | undefined;
+  try {
+    const afterPath = files[files.length - 1] ?? 'src/manifest.yaml';
+    let beforePath = files[0];
+    if (ref) {
+      try {
+        checkout = checkoutRef(afterPath, ref);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Failed to check out '${ref}': ${message.split('\n')[0]}`);
+        return 1;
+      }
+      beforePath = checkout.path;
+    }
+
+    const before = await loadForDiff(beforePath, ref ? `'${ref}'` : 'old', options);
+    const after = await loadForDiff(afterPath, 'new', options);
+    if (!before || !after) return 1;
+
+    console.log(formatManifestChanges(diffManifests(before, after), format));
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  } finally {
+    checkout?.cleanup();
+  }
+}
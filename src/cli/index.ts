@@ -1,8 +1,22 @@
 #!/usr/bin/env node
 
+import { runDiffCommand } from './diff';
+import { runInitCommand } from './init';
+import { runMigrateCommand } from './migrate';
+import { runPlanCommand } from './plan';
+import { runValidateCommand } from './validate';
+
 // Export for programmatic use
 export { setupIntelliSense } from './setup-intellisense';
 export type { SetupOptions, ManifestType } from './setup-intellisense';
+export { validateManifestFiles, formatValidationReports } from './validate';
+export type { ValidateFormat, ValidateOptions, ManifestValidationReport } from './validate';
+export { formatDeploymentPlan } from './plan';
+export type { PlanFormat } from './plan';
+export { formatManifestChanges } from './diff';
+export type { DiffFormat } from './diff';
+export { scaffoldManifest } from './init';
+export type { InitOptions, ManifestPreset } from './init';
 
 // CLI entry point
 function main() {
@@ -16,6 +30,26 @@ function main() {
       require('./setup-intellisense');
       break;
 
+    case 'init':
+      runInitCommand(args.slice(1)).then(setExitCode);
+      break;
+
+    case 'validate':
+      runValidateCommand(args.slice(1)).then(setExitCode);
+      break;
+
+    case 'plan':
+      runPlanCommand(args.slice(1)).then(setExitCode);
+      break;
+
+    case 'diff':
+      runDiffCommand(args.slice(1)).then(setExitCode);
+      break;
+
+    case 'migrate':
+      runMigrateCommand(args.slice(1)).then(setExitCode);
+      break;
+
     case '--help':
     case '-h':
     case 'help':
@@ -28,11 +62,19 @@ function main() {
       } else {
         console.error(`❌ Unknown command: ${command}`);
         console.log('Run "npx @codeiqlabs/aws-utils --help" for usage information.');
-        process.exit(1);
+        process.exitCode = 1;
       }
   }
 }
 
+/**
+ * Report a command's exit code without cutting off output that is still being written
+ * to a piped stdout (e.g. large JSON or SARIF reports)
+ */
+function setExitCode(code: number): void {
+  process.exitCode = code;
+}
+
 function showHelp() {
   console.log(`
 🔧 CodeIQLabs AWS Utils CLI
@@ -42,6 +84,12 @@ USAGE:
 
 COMMANDS:
   setup-intellisense    Set up IntelliSense for manifest files
+  init [file]           Create a manifest from a preset (default: src/manifest.yaml)
+  validate [files...]   Validate manifest files (default: src/manifest.yaml)
+  plan [file]           Show the stacks the manifest deploys per environment
+  diff <before> <after> Show the infrastructure-level changes between two manifests
+  diff [file] --ref=<r> Compare a manifest with its version at a git ref
+  migrate [file]        Rewrite legacy saasApps into saasEdge and saasWorkload
   help, --help, -h      Show this help message
 
 SETUP INTELLISENSE OPTIONS:
@@ -50,6 +98,34 @@ SETUP INTELLISENSE OPTIONS:
   --auto                Run in auto mode (less verbose output)
   --quiet               Suppress all output except errors
 
+INIT OPTIONS:
+  --preset=<preset>     management, customization or saas-workload (required)
+  --company=<name>      Company name for stack names (default: Acme)
+  --project=<name>      Project name for stack names (default depends on the preset)
+  --domain=<domain>     Primary domain (default: example.com)
+  --region=<region>     Region of every environment (default: us-east-1)
+  --force               Overwrite an existing file
+
+VALIDATE OPTIONS:
+  --format=<format>     Output format: pretty (default), json or sarif
+  --overlay=<path>      Overlay file merged on top of each manifest (repeatable)
+  --no-env              Do not expand \${VAR} placeholders from the environment
+
+PLAN OPTIONS:
+  --format=<format>     Output format: table (default), json, mermaid or dot
+  --overlay=<path>      Overlay file merged on top of the manifest (repeatable)
+  --no-env              Do not expand \${VAR} placeholders from the environment
+
+DIFF OPTIONS:
+  --ref=<git-ref>       Compare the file as of this ref (e.g. origin/main) with the working copy
+  --format=<format>     Output format: pretty (default) or json
+  --overlay=<path>      Overlay file merged on top of both manifests (repeatable)
+  --no-env              Do not expand \${VAR} placeholders from the environment
+
+MIGRATE OPTIONS:
+  --write               Update the file in place (default: print the migrated manifest)
+  --check               Exit with code 1 if the manifest still uses saasApps
+
 EXAMPLES:
   # Auto-detect and set up IntelliSense for all manifest files
   npx @codeiqlabs/aws-utils setup-intellisense
@@ -63,6 +139,21 @@ EXAMPLES:
   # Run in quiet mode
   npx @codeiqlabs/aws-utils setup-intellisense --auto --quiet
 
+  # Start a new SaaS workload repository
+  npx @codeiqlabs/aws-utils init --preset=saas-workload --company=Acme --domain=acme.com
+
+  # Validate manifests in CI and upload the results to GitHub code scanning
+  npx @codeiqlabs/aws-utils validate src/manifest.yaml --format=sarif > manifest.sarif
+
+  # Render the stack graph as a Mermaid diagram
+  npx @codeiqlabs/aws-utils plan src/manifest.yaml --format=mermaid
+
+  # Review what a branch changes in the manifest
+  npx @codeiqlabs/aws-utils diff src/manifest.yaml --ref=origin/main
+
+  # Migrate legacy saasApps in place
+  npx @codeiqlabs/aws-utils migrate src/manifest.yaml --write
+
 For more information, visit: https://github.com/CodeIQLabs/codeiqlabs-aws-utils
 `);
 }
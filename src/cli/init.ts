@@ -0,0 +1,260 @@
+/**
+ * `init` command
+ *
+ * Scaffolds a new manifest from a preset instead of copying an old one and deleting
+ * what does not apply:
+ * - `management`: organization account with AWS Organizations and Identity Center
+ * - `customization`: edge (domains, CloudFront via `saasEdge`) and shared
+ *   `infrastructure` in the workload accounts
+ * - `saas-workload`: brand services in the workload accounts (`saasWorkload`)
+ *
+ * Every preset fills in `naming` and `environments`, is validated against
+ * `UnifiedAppConfigSchema` before it is written and starts with the
+ * `yaml-language-server` schema modeline for IntelliSense. Account IDs and other
+ * identifiers are placeholders to replace.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { Document, isMap, isScalar } from 'yaml';
+import {
+  formatIssuePath,
+  UnifiedAppConfigSchema,
+  validateManifestSemantics,
+  zodErrorToIssues,
+} from '../config';
+import { parseCommandArgs } from './options';
+
+/**
+ * Manifest presets supported by the init command
+ */
+export type ManifestPreset = 'management' | 'customization' | 'saas-workload';
+
+/**
+ * Values filled into a preset
+ */
+export interface InitOptions {
+  /** Company name used in stack names (default: `Acme`) */
+  company?: string;
+  /** Project name used in stack names (default depends on the preset) */
+  project?: string;
+  /** Primary domain (default: `example.com`) */
+  domain?: string;
+  /** Region of every environment (default: `us-east-1`) */
+  region?: string;
+}
+
+const PRESETS: readonly ManifestPreset[] = ['management', 'customization', 'saas-workload'];
+
+const DEFAULT_PROJECTS: Record<ManifestPreset, string> = {
+  management: 'Management',
+  customization: 'Customization',
+  'saas-workload': 'SaaS',
+};
+
+const SCHEMA_URL =
+  'https://raw.githubusercontent.com/CodeIQLabs/codeiqlabs-aws-utils/main/schemas/manifest.schema.json';
+
+const PLACEHOLDER_ACCOUNT_IDS = {
+  mgmt: '111111111111',
+  nprd: '222222222222',
+  prod: '333333333333',
+};
+
+const SECTION_COMMENTS: Record<string, string> = {
+  naming: ' Stack names: {company}-{project}-{environment}-{component}-Stack',
+  environments: ' Accounts to deploy to - replace the placeholder account IDs',
+  organization: ' AWS Organizations - replace rootId with your organization root (r-xxxx)',
+  identityCenter:
+    ' Identity Center - replace instanceArn and the group ID with the values from the console',
+  domains: ' Domains registered in the management account',
+  saasEdge: ' CloudFront distributions per domain (management account)',
+  infrastructure: ' VPC and ALB shared with the workload stacks through SSM parameters',
+  saasWorkload: ' Services per brand (workload accounts)',
+};
+
+/**
+ * Build the manifest of a preset
+ */
+function buildPreset(preset: ManifestPreset, options: InitOptions): Record<string, unknown> {
+  const company = options.company ?? 'Acme';
+  const project = options.project ?? DEFAULT_PROJECTS[preset];
+  const domain = options.domain ?? 'example.com';
+  const region = options.region ?? 'us-east-1';
+  const brand = domain.split('.')[0];
+  const environment = (key: keyof typeof PLACEHOLDER_ACCOUNT_IDS) => ({
+    accountId: PLACEHOLDER_ACCOUNT_IDS[key],
+    region,
+  });
+
+  switch (preset) {
+    case 'management':
+      return {
+        naming: { company, project },
+        environments: { mgmt: environment('mgmt') },
+        organization: {
+          rootId: 'r-0000',
+          mode: 'create',
+          organizationalUnits: [
+            {
+              key: 'workloads',
+              name: 'Workloads',
+              accounts: (['nprd', 'prod'] as const).map((env) => ({
+                key: `${brand}-${env}`,
+                name: `${brand} ${env}`,
+                email: `aws+${brand}-${env}@${domain}`,
+                environment: env,
+                purpose: `${env === 'prod' ? 'Production' : 'Non-production'} workloads`,
+              })),
+            },
+          ],
+        },
+        identityCenter: {
+          instanceArn: 'arn:aws:sso:::instance/ssoins-0000000000000000',
+          groups: [
+            {
+              key: 'admins',
+              groupId: '00000000-0000-0000-0000-000000000000',
+              displayName: 'Administrators',
+            },
+          ],
+          permissionSets: [
+            {
+              name: 'AdministratorAccess',
+              description: 'Full administrative access',
+              sessionDuration: 'PT4H',
+              managedPolicies: ['arn:aws:iam::aws:policy/AdministratorAccess'],
+            },
+          ],
+          assignments: {
+            [`${brand}-nprd`]: { AdministratorAccess: { groups: ['admins'] } },
+            [`${brand}-prod`]: { AdministratorAccess: { groups: ['admins'] } },
+          },
+          tags: { Owner: company, ManagedBy: 'CDK' },
+        },
+      };
+
+    case 'customization':
+      return {
+        naming: { company, project },
+        environments: {
+          mgmt: environment('mgmt'),
+          nprd: environment('nprd'),
+          prod: environment('prod'),
+        },
+        domains: { registeredDomains: [{ name: domain }] },
+        saasEdge: [
+          {
+            domain,
+            distributions: [{ type: 'marketing' }, { type: 'webapp' }, { type: 'api' }],
+          },
+        ],
+        infrastructure: {
+          targetEnvironments: ['nprd', 'prod'],
+          commonParams: { accountIds: true },
+        },
+      };
+
+    case 'saas-workload':
+      return {
+        naming: { company, project },
+        environments: { nprd: environment('nprd'), prod: environment('prod') },
+        saasWorkload: [{ name: brand, domain, webapp: true, lambdaApi: true, marketingS3: true }],
+      };
+  }
+}
+
+/**
+ * Render the manifest of a preset as YAML
+ *
+ * @param preset - Preset to scaffold
+ * @param options - Names, domain and region to fill in
+ * @returns YAML content starting with the schema modeline
+ * @throws Error if the preset does not produce a valid manifest for these options
+ */
+export function scaffoldManifest(preset: ManifestPreset, options: InitOptions = {}): string {
+  const manifest = buildPreset(preset, options);
+
+  const result = UnifiedAppConfigSchema.safeParse(manifest);
+  const errors = result.success
+    ? validateManifestSemantics(result.data).filter((issue) => issue.severity !== 'warning')
+    : zodErrorToIssues(result.error);
+  if (errors.length > 0) {
+    const [issue] = errors;
+    throw new Error(
+      `The ${preset} preset is not valid with these options: ${issue.message} (${formatIssuePath(issue.path)})`,
+    );
+  }
+
+  const document = new Document(manifest);
+  document.commentBefore = ` yaml-language-server: $schema=${SCHEMA_URL}`;
+  if (isMap(document.contents)) {
+    document.contents.items.forEach((pair, index) => {
+      if (!isScalar(pair.key)) return;
+      pair.key.commentBefore = SECTION_COMMENTS[String(pair.key.value)];
+      pair.key.spaceBefore = index > 0;
+    });
+  }
+
+  return document.toString({ lineWidth: 0 });
+}
+
+/**
+ * Run the init command
+ *
+ * @param args - Command arguments (without the command name)
+ * @returns Process exit code
+ */
+export async function runInitCommand(args: string[]): Promise<number> {
+  const usage = `init [file] --preset ${PRESETS.join('|')} [--company <name>] [--project <name>] [--domain <domain>] [--region <region>] [--force]`;
+  const parsed = parseCommandArgs(
+    args,
+    {
+      preset: { type: 'string' },
+      company: { type: 'string' },
+      project: { type: 'string' },
+      domain: { type: 'string' },
+      region: { type: 'string' },
+      force: { type: 'boolean' },
+    },
+    usage,
+  );
+  if (!parsed) return 2;
+
+  const { values, positionals: files } = parsed;
+  const preset = values.preset as ManifestPreset | undefined;
+  if (!preset || files.length > 1) {
+    console.error(`❌ Usage: ${usage}`);
+    return 2;
+  }
+  if (!PRESETS.includes(preset)) {
+    console.error(`❌ Unknown preset: ${preset} (expected ${PRESETS.join('|')})`);
+    return 2;
+  }
+
+  const filePath = resolve(files[0] ?? 'src/manifest.yaml');
+  if (existsSync(filePath) && !values.force) {
+    console.error(`❌ ${filePath} already exists; use --force to overwrite it`);
+    return 1;
+  }
+
+  try {
+    const content = scaffoldManifest(preset, {
+      company: values.company,
+      project: values.project,
+      domain: values.domain,
+      region: values.region,
+    });
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+
+  console.log(`✅ Created ${filePath} from the ${preset} preset`);
+  console.log(
+    '💡 Replace the placeholder account IDs, then run: npx @codeiqlabs/aws-utils validate',
+  );
+  return 0;
+}
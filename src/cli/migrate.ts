@@ -0,0 +1,81 @@
+/**
+ * `migrate` command
+ *
+ * Rewrites the legacy `saasApps` section of a manifest into `saasEdge` and
+ * `saasWorkload` (see `migrateSaasApps`), keeping comments and key order:
+ * - by default the migrated manifest is printed to stdout
+ * - `--write` rewrites the file in place
+ * - `--check` only reports whether a migration is needed (exit code 1 if so)
+ *
+ * Anything that could not be mapped one-to-one is reported on stderr. The command
+ * exits with code 1 when an entry could not be migrated and 2 on invalid usage.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { formatManifestIssues, migrateSaasApps } from '../config';
+import { parseCommandArgs } from './options';
+
+/**
+ * Run the migrate command
+ *
+ * @param args - Command arguments (without the command name)
+ * @returns Process exit code
+ */
+export async function runMigrateCommand(args: string[]): Promise<number> {
+  const usage = 'migrate [file] [--write | --check]';
+  const parsed = parseCommandArgs(
+    args,
+    { write: { type: 'boolean' }, check: { type: 'boolean' } },
+    usage,
+  );
+  if (!parsed) return 2;
+
+  const { values, positionals: files } = parsed;
+  if (files.length > 1 || (values.write && values.check)) {
+    console.error(`❌ Usage: ${usage}`);
+    return 2;
+  }
+
+  const filePath = resolve(files[0] ?? 'src/manifest.yaml');
+  let result;
+  try {
+    result = migrateSaasApps(readFileSync(filePath, 'utf-8'), filePath);
+  } catch (error) {
+    console.error(
+      `❌ Failed to migrate '${filePath}': ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+
+  if (result.issues.length > 0) {
+    console.error(formatManifestIssues(result.issues, filePath).trimEnd());
+    console.error('');
+  }
+
+  const failed = result.issues.some((issue) => issue.severity !== 'warning');
+
+  if (!result.changed) {
+    console.error(
+      failed ? '❌ No saasApps entries could be migrated' : '✅ No saasApps to migrate',
+    );
+    return failed ? 1 : 0;
+  }
+
+  const summary = `${result.migrated.length} saasApps entr${result.migrated.length === 1 ? 'y' : 'ies'} (${result.migrated.join(', ')})`;
+
+  if (values.check) {
+    console.error(`❌ ${filePath} has ${summary} to migrate`);
+    return 1;
+  }
+
+  if (values.write) {
+    writeFileSync(filePath, result.content);
+    console.error(`✅ Migrated ${summary} in ${filePath}`);
+  } else {
+    process.stdout.write(result.content);
+    console.error(`✅ Migrated ${summary}; use --write to update ${filePath}`);
+  }
+
+  return failed ? 1 : 0;
+}
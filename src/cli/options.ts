@@ -0,0 +1,92 @@
+/**
+ * Command-line option parsing shared by the CLI commands
+ *
+ * Options are accepted as `--name value` or `--name=value`. Unknown options and
+ * options without their value are rejected with the command's usage, so that a typo
+ * never silently changes what a command does.
+ */
+
+import { parseArgs, type ParseArgsConfig } from 'util';
+
+/**
+ * Option definitions of a command, as accepted by `util.parseArgs`
+ */
+export type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+
+/**
+ * Value of an option: a string or boolean, or a list of them for repeatable options
+ */
+type CommandOptionValue<O> = O extends { type: 'boolean' }
+  ? O extends { multiple: true }
+    ? boolean[]
+    : boolean
+  : O extends { multiple: true }
+    ? string[]
+    : string;
+
+/**
+ * Parsed arguments of a command
+ */
+export interface ParsedCommandArgs<T extends CommandOptions> {
+  /** Values of the options that were given */
+  values: { [K in keyof T]?: CommandOptionValue<T[K]> };
+  /** Arguments that are not options, in order */
+  positionals: string[];
+}
+
+/**
+ * Options of the commands that load manifests
+ */
+export const MANIFEST_LOAD_OPTIONS = {
+  /** Overlay file merged on top of the manifest (repeatable) */
+  overlay: { type: 'string', multiple: true },
+  /** Do not expand `${VAR}` placeholders from the environment */
+  'no-env': { type: 'boolean' },
+} as const satisfies CommandOptions;
+
+/**
+ * Parse the arguments of a command
+ *
+ * @param args - Command arguments (without the command name)
+ * @param options - Options the command accepts
+ * @param usage - Usage line printed when the arguments are invalid
+ * @returns The option values and positional arguments, or undefined (after printing the
+ * problem and the usage) when the arguments are invalid; commands then exit with code 2
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseCommandArgs(args, { format: { type: 'string' } }, 'plan [file]');
+ * if (!parsed) return 2;
+ * const format = parsed.values.format ?? 'table';
+ * ```
+ */
+export function parseCommandArgs<const T extends CommandOptions>(
+  args: string[],
+  options: T,
+  usage: string,
+): ParsedCommandArgs<T> | undefined {
+  try {
+    return parseArgs({
+      args,
+      options,
+      allowPositionals: true,
+      strict: true,
+    }) as ParsedCommandArgs<T>;
+  } catch (error) {
+    // Keep the first sentence; Node appends hints about `--` that do not apply here
+    const message = error instanceof Error ? error.message.split('. ')[0] : String(error);
+    console.error(`❌ ${message}`);
+    console.error(`Usage: ${usage}`);
+    return undefined;
+  }
+}
+
+/**
+ * Map the {@link MANIFEST_LOAD_OPTIONS} values to `loadManifest` options
+ */
+export function getManifestLoadOptions(values: { overlay?: string[]; 'no-env'?: boolean }): {
+  overlays: string[];
+  expandEnvVars: boolean;
+} {
+  return { overlays: values.overlay ?? [], expandEnvVars: !values['no-env'] };
+}
@@ -0,0 +1,198 @@
+/**
+ * `plan` command
+ *
+ * Loads a manifest and prints every stack that would be synthesized for each
+ * environment, with its account, region and dependencies. Output formats:
+ * - `table`: aligned columns, for terminals
+ * - `json`: the {@link DeploymentPlan} as returned by `planDeployment`
+ * - `mermaid`: flowchart for Markdown (PR descriptions, design docs)
+ * - `dot`: Graphviz digraph
+ *
+ * Edges in the graph formats point from a stack to the stacks that depend on it,
+ * i.e. in deployment order.
+ */
+
+import { planDeployment } from '../application/deployment-plan';
+import type { DeploymentPlan, PlannedStack } from '../application/deployment-plan';
+import { formatManifestIssues, loadManifest } from '../config';
+import { getManifestLoadOptions, MANIFEST_LOAD_OPTIONS, parseCommandArgs } from './options';
+
+/**
+ * Output formats supported by the plan command
+ */
+export type PlanFormat = 'table' | 'json' | 'mermaid' | 'dot';
+
+const FORMATS: readonly PlanFormat[] = ['table', 'json', 'mermaid', 'dot'];
+
+/**
+ * Render a deployment plan in the requested format
+ *
+ * @param plan - Plan returned by `planDeployment`
+ * @param format - Output format
+ * @returns The rendered output
+ */
+export function formatDeploymentPlan(plan: DeploymentPlan, format: PlanFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(plan, null, 2);
+    case 'mermaid':
+      return formatMermaid(plan);
+    case 'dot':
+      return formatDot(plan);
+    case 'table':
+      return formatTable(plan);
+  }
+}
+
+/**
+ * Aligned table with one row per stack
+ */
+function formatTable(plan: DeploymentPlan): string {
+  if (plan.stacks.length === 0) {
+    return 'No stacks: the manifest does not enable any component';
+  }
+
+  const header = ['ENVIRONMENT', 'ACCOUNT', 'REGION', 'STACK', 'DEPENDS ON'];
+  const rows = plan.stacks.map((stack) => [
+    stack.environment,
+    stack.accountId,
+    stack.region,
+    stack.stackName,
+    stack.dependsOn.length > 0 ? stack.dependsOn.join(', ') : '-',
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [formatRow(header), ...rows.map(formatRow)].join('\n');
+}
+
+/**
+ * Mermaid flowchart with one subgraph per environment
+ */
+function formatMermaid(plan: DeploymentPlan): string {
+  const lines = ['flowchart TD'];
+
+  for (const environment of plan.environments) {
+    lines.push(
+      `  subgraph ${nodeId(environment.environment)}["${mermaidText(`${environment.environment} (${environment.accountId} / ${environment.region})`)}"]`,
+    );
+    for (const stack of environment.stacks) {
+      lines.push(`    ${nodeId(stack.id)}["${mermaidText(stack.stackName)}"]`);
+    }
+    lines.push('  end');
+  }
+
+  for (const [from, to] of edges(plan.stacks)) {
+    lines.push(`  ${nodeId(from)} --> ${nodeId(to)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Graphviz digraph with one cluster per environment
+ */
+function formatDot(plan: DeploymentPlan): string {
+  const lines = ['digraph deployment {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const environment of plan.environments) {
+    lines.push(`  subgraph ${dotString(`cluster_${environment.environment}`)} {`);
+    lines.push(
+      `    label=${dotString(`${environment.environment} (${environment.accountId} / ${environment.region})`)};`,
+    );
+    for (const stack of environment.stacks) {
+      lines.push(`    ${dotString(stack.id)} [label=${dotString(stack.stackName)}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const [from, to] of edges(plan.stacks)) {
+    lines.push(`  ${dotString(from)} -> ${dotString(to)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Dependency edges as [dependency, dependent] pairs of stack IDs
+ */
+function edges(stacks: PlannedStack[]): Array<[string, string]> {
+  return stacks.flatMap((stack) =>
+    stack.dependsOn.map((dependency): [string, string] => [dependency, stack.id]),
+  );
+}
+
+/**
+ * Mermaid node identifier for a stack ID or environment (letters, digits and underscores)
+ */
+function nodeId(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+/**
+ * Mermaid label text, with quotes written as entity codes since labels cannot escape them
+ */
+function mermaidText(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
+
+/**
+ * Graphviz quoted string, with backslashes and quotes escaped
+ */
+function dotString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+/**
+ * Run the plan command
+ *
+ * @param args - Command arguments (without the command name)
+ * @returns Process exit code
+ */
+export async function runPlanCommand(args: string[]): Promise<number> {
+  const usage = `plan [file] [--format ${FORMATS.join('|')}] [--overlay <path>...] [--no-env]`;
+  const parsed = parseCommandArgs(
+    args,
+    { format: { type: 'string' }, ...MANIFEST_LOAD_OPTIONS },
+    usage,
+  );
+  if (!parsed) return 2;
+
+  const format = (parsed.values.format ?? 'table') as PlanFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(`❌ Unknown format: ${format} (expected ${FORMATS.join('|')})`);
+    return 2;
+  }
+  if (parsed.positionals.length > 1) {
+    console.error(`❌ Usage: ${usage}`);
+    return 2;
+  }
+
+  const manifestPath = parsed.positionals[0] ?? 'src/manifest.yaml';
+  const result = await loadManifest(manifestPath, getManifestLoadOptions(parsed.values));
+
+  if (!result.success) {
+    console.error(
+      result.issues?.length
+        ? formatManifestIssues(result.issues, manifestPath)
+        : `❌ Failed to load manifest from '${manifestPath}': ${result.error}`,
+    );
+    return 1;
+  }
+
+  try {
+    console.log(formatDeploymentPlan(planDeployment(result.data), format));
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
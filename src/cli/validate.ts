@@ -0,0 +1,210 @@
+/**
+ * `validate` command
+ *
+ * Loads one or more manifests, runs schema and semantic validation and reports
+ * every issue in one of three formats:
+ * - `pretty`: compiler-style output with code frames, for terminals
+ * - `json`: machine-readable report, for scripts
+ * - `sarif`: SARIF 2.1.0 log, for GitHub code scanning annotations
+ *
+ * The command exits with code 1 when any manifest has errors (warnings do not fail it)
+ * and with code 2 on invalid usage.
+ */
+
+import { relative, sep } from 'path';
+import { formatIssuePath, formatManifestIssues, loadManifest } from '../config';
+import type { ManifestIssue } from '../config';
+import { getManifestLoadOptions, MANIFEST_LOAD_OPTIONS, parseCommandArgs } from './options';
+
+/**
+ * Output formats supported by the validate command
+ */
+export type ValidateFormat = 'pretty' | 'json' | 'sarif';
+
+/**
+ * Options for validating manifest files
+ */
+export interface ValidateOptions {
+  /** Overlay files applied on top of every manifest, in order */
+  overlays?: string[];
+  /**
+   * Whether to expand `${VAR}` placeholders from the environment
+   * @default true
+   */
+  expandEnvVars?: boolean;
+}
+
+/**
+ * Validation outcome for a single manifest file
+ */
+export interface ManifestValidationReport {
+  /** Manifest path as given on the command line */
+  filePath: string;
+  /** True when the manifest has no errors (it may still have warnings) */
+  valid: boolean;
+  /** Problems that make the manifest unusable */
+  errors: ManifestIssue[];
+  /** Problems that do not prevent the manifest from being used */
+  warnings: ManifestIssue[];
+}
+
+const FORMATS: readonly ValidateFormat[] = ['pretty', 'json', 'sarif'];
+
+const TOOL_NAME = 'codeiqlabs-aws-utils';
+const TOOL_URI = 'https://github.com/CodeIQLabs/codeiqlabs-aws-utils';
+
+/**
+ * Load and validate manifest files
+ *
+ * Files that cannot be read or parsed are reported as a single `load_error` issue.
+ *
+ * @param filePaths - Manifest files to validate
+ * @param options - Validation options
+ * @returns One report per file, in the given order
+ */
+export async function validateManifestFiles(
+  filePaths: string[],
+  options: ValidateOptions = {},
+): Promise<ManifestValidationReport[]> {
+  const reports: ManifestValidationReport[] = [];
+
+  for (const filePath of filePaths) {
+    const result = await loadManifest(filePath, {
+      overlays: options.overlays,
+      expandEnvVars: options.expandEnvVars ?? true,
+      collectMissingEnvVars: true,
+    });
+
+    if (result.success) {
+      reports.push({ filePath, valid: true, errors: [], warnings: result.warnings ?? [] });
+      continue;
+    }
+
+    const issues: ManifestIssue[] = result.issues ?? [
+      { path: [], message: result.error, code: 'load_error' },
+    ];
+    reports.push({
+      filePath,
+      valid: false,
+      errors: issues.filter((issue) => issue.severity !== 'warning'),
+      warnings: issues.filter((issue) => issue.severity === 'warning'),
+    });
+  }
+
+  return reports;
+}
+
+/**
+ * Render validation reports in the requested format
+ *
+ * @param reports - Reports returned by {@link validateManifestFiles}
+ * @param format - Output format
+ * @returns The rendered output
+ */
+export function formatValidationReports(
+  reports: ManifestValidationReport[],
+  format: ValidateFormat,
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ valid: reports.every((report) => report.valid), reports }, null, 2);
+    case 'sarif':
+      return JSON.stringify(toSarifLog(reports), null, 2);
+    case 'pretty':
+      return formatPretty(reports);
+  }
+}
+
+/**
+ * Human-readable output with code frames and a summary line
+ */
+function formatPretty(reports: ManifestValidationReport[]): string {
+  const blocks = reports.map((report) => {
+    const issues = [...report.errors, ...report.warnings];
+    const status = report.valid ? '✅' : '❌';
+    const header = `${status} ${report.filePath}`;
+    return issues.length > 0
+      ? `${header}\n\n${formatManifestIssues(issues, report.filePath).trimEnd()}`
+      : header;
+  });
+
+  const errors = reports.reduce((count, report) => count + report.errors.length, 0);
+  const warnings = reports.reduce((count, report) => count + report.warnings.length, 0);
+  const summary = `${errors} error(s), ${warnings} warning(s) in ${reports.length} file(s)`;
+
+  return `${blocks.join('\n\n')}\n\n${summary}`;
+}
+
+/**
+ * Build a SARIF 2.1.0 log with one result per issue
+ */
+function toSarifLog(reports: ManifestValidationReport[]) {
+  const toUri = (file: string) => relative(process.cwd(), file).split(sep).join('/');
+
+  const results = reports.flatMap((report) =>
+    [...report.errors, ...report.warnings].map((issue) => ({
+      ruleId: issue.code,
+      level: issue.severity ?? 'error',
+      message: { text: `${issue.message} (${formatIssuePath(issue.path)})` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toUri(issue.location?.file ?? report.filePath) },
+            ...(issue.location && {
+              region: { startLine: issue.location.line, startColumn: issue.location.column },
+            }),
+          },
+        },
+      ],
+    })),
+  );
+
+  const ruleIds = [...new Set(results.map((result) => result.ruleId))];
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            rules: ruleIds.map((id) => ({ id, shortDescription: { text: id } })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+/**
+ * Run the validate command
+ *
+ * @param args - Command arguments (without the command name)
+ * @returns Process exit code
+ */
+export async function runValidateCommand(args: string[]): Promise<number> {
+  const parsed = parseCommandArgs(
+    args,
+    { format: { type: 'string' }, ...MANIFEST_LOAD_OPTIONS },
+    `validate [files...] [--format ${FORMATS.join('|')}] [--overlay <path>...] [--no-env]`,
+  );
+  if (!parsed) return 2;
+
+  const format = (parsed.values.format ?? 'pretty') as ValidateFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(`❌ Unknown format: ${format} (expected ${FORMATS.join('|')})`);
+    return 2;
+  }
+
+  const files = parsed.positionals;
+  const reports = await validateManifestFiles(
+    files.length > 0 ? files : ['src/manifest.yaml'],
+    getManifestLoadOptions(parsed.values),
+  );
+
+  console.log(formatValidationReports(reports, format));
+  return reports.every((report) => report.valid) ? 0 : 1;
+}
@@ -43,6 +43,8 @@ export {
   IdentityCenterSchema,
   // Unified application schema
   UnifiedAppConfigSchema,
+  validateManifestSemantics,
+  validateIdentityCenterAssignments,
 } from './schemas';
 
 // Most commonly used types
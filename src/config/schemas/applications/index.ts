@@ -8,10 +8,14 @@
 // Re-export unified application schema
 export * from './unified';
 
+// Re-export schemas of earlier manifest versions
+export * from './versions';
+
 /**
  * Convenience re-exports for commonly used application schemas
  */
 export {
+  MANIFEST_SCHEMA_VERSION,
   UnifiedAppConfigSchema,
   SaasAppSchema,
   SaasEdgeAppSchema,
@@ -20,6 +24,12 @@ export {
   DistributionTypeSchema,
   OriginTypeSchema,
   ServiceTypeSchema,
+  WorkloadDefaultsSchema,
+  EcsWebappDefaultsSchema,
+  EcsApiDefaultsSchema,
+  LambdaDefaultsSchema,
+  AuroraDefaultsSchema,
+  SimpleNetworkingConfigSchema,
   validateUnifiedAppConfig,
   safeValidateUnifiedAppConfig,
   type UnifiedAppConfig,
@@ -31,6 +41,14 @@ export {
   type DistributionType,
   type OriginType,
   type ServiceType,
+  type WorkloadDefaults,
+  type EcsWebappDefaults,
+  type EcsApiDefaults,
+  type LambdaDefaults,
+  type AuroraDefaults,
+  type SimpleNetworkingConfig,
   type DeploymentTarget,
   type EnvironmentConfig,
 } from './unified';
+
+export { ManifestSchemaV1, ManifestSchemaV2, MANIFEST_SCHEMAS_BY_VERSION } from './versions';
@@ -14,6 +14,10 @@ import {
   GitHubOidcConfigSchema,
   EcsComputeConfigSchema,
   AuroraConfigSchema,
+  DynamoDBConfigSchema,
+  NetworkingConfigSchema,
+  SecurityConfigSchema,
+  ComplianceConfigSchema,
 } from '../resources';
 
 /**
@@ -438,14 +442,14 @@ export const SaasWorkloadAppSchema = z.object({
         /**
          * Memory size in MB
          * More memory = more CPU = faster execution
-         * @default 1024
+         * @default defaults.lambda.memorySize (1024)
          */
         memorySize: z.number().min(128).max(10240).optional(),
 
         /**
          * Timeout in seconds
          * Background jobs may need longer timeouts than API handlers
-         * @default 300 (5 minutes)
+         * @default defaults.lambda.timeout (30)
          */
         timeout: z.number().min(1).max(900).optional(),
 
@@ -467,6 +471,104 @@ export type SaasWorkloadApp = z.infer<typeof SaasWorkloadAppSchema>;
  */
 export type ScheduledJobConfig = NonNullable<SaasWorkloadApp['scheduledJobs']>[number];
 
+/**
+ * Default ECS task sizing for webapp services
+ */
+export const EcsWebappDefaultsSchema = z.object({
+  cpu: z.number().default(256),
+  memoryMiB: z.number().default(512),
+  desiredCount: z.number().default(1),
+});
+
+/**
+ * Default ECS task sizing for API services
+ */
+export const EcsApiDefaultsSchema = z.object({
+  cpu: z.number().default(512),
+  memoryMiB: z.number().default(1024),
+  desiredCount: z.number().default(1),
+});
+
+/**
+ * Default Lambda settings for API functions
+ */
+export const LambdaDefaultsSchema = z.object({
+  /** Memory size in MB (more memory = more CPU = faster cold starts) */
+  memorySize: z.number().min(128).max(10240).default(1024),
+  /** Timeout in seconds */
+  timeout: z.number().min(1).max(900).default(30),
+  /**
+   * EventBridge bus name for async event publishing
+   * Supports {env} placeholder which is replaced with environment name
+   * @example "saas-{env}-events" → "saas-nprd-events"
+   */
+  eventBridgeBusName: z.string().optional(),
+});
+
+/**
+ * Default Aurora Serverless v2 settings
+ */
+export const AuroraDefaultsSchema = z.object({
+  minCapacity: z.number().default(0.5),
+  maxCapacity: z.number().default(2),
+  engineVersion: z.string().default('16.4'),
+});
+
+/**
+ * Default configuration values for ECS, Lambda, and Aurora
+ * These are used when saasWorkload-derived infrastructure is created
+ */
+export const WorkloadDefaultsSchema = z.object({
+  ecs: z
+    .object({
+      webapp: EcsWebappDefaultsSchema.optional(),
+      api: EcsApiDefaultsSchema.optional(),
+    })
+    .optional(),
+  lambda: LambdaDefaultsSchema.optional(),
+  aurora: AuroraDefaultsSchema.optional(),
+});
+
+export type EcsWebappDefaults = z.infer<typeof EcsWebappDefaultsSchema>;
+export type EcsApiDefaults = z.infer<typeof EcsApiDefaultsSchema>;
+export type LambdaDefaults = z.infer<typeof LambdaDefaultsSchema>;
+export type AuroraDefaults = z.infer<typeof AuroraDefaultsSchema>;
+export type WorkloadDefaults = z.infer<typeof WorkloadDefaultsSchema>;
+
+/**
+ * Simple networking configuration (VPC sizing only)
+ *
+ * Form of the `networking` section up to schemaVersion 2. Manifests declaring an older
+ * version are upgraded to the full {@link NetworkingConfigSchema} configuration when
+ * loaded.
+ *
+ * @deprecated Use the full networking configuration (`mode`, `vpc.name`, `vpc.subnets`, ...)
+ */
+export const SimpleNetworkingConfigSchema = z.object({
+  vpc: z
+    .object({
+      cidr: z.string().optional(),
+      maxAzs: z.number().min(1).max(3).optional(),
+      natGateways: z.number().min(0).max(3).optional(),
+      enableFlowLogs: z.boolean().optional(),
+      flowLogsRetentionDays: z.number().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Current version of the manifest format
+ *
+ * History:
+ * - 1: per-account manifests selected by `manifestType`
+ * - 2: unified manifest, components define what gets deployed; brands in `saasApps`
+ * - 3: brands split into `saasEdge` and `saasWorkload`, `infrastructure` section
+ *
+ * Manifests declaring an older `schemaVersion` are upgraded in memory by `loadManifest`;
+ * manifests without one are validated as they are.
+ */
+export const MANIFEST_SCHEMA_VERSION = 3;
+
 /**
  * Unified Application Configuration Schema
  *
@@ -478,6 +580,13 @@ export type ScheduledJobConfig = NonNullable<SaasWorkloadApp['scheduledJobs']>[n
  * Components are enabled by including them in the manifest with enabled: true
  */
 export const UnifiedAppConfigSchema = z.object({
+  /**
+   * Manifest format version
+   * Optional: manifests declaring an older version are upgraded to the current version
+   * when loaded
+   */
+  schemaVersion: z.literal(MANIFEST_SCHEMA_VERSION).optional(),
+
   /**
    * Naming configuration - defines company and project for stack/resource naming
    * Pattern: {company}-{project}-{environment}-{component}-Stack
@@ -495,49 +604,7 @@ export const UnifiedAppConfigSchema = z.object({
    * Default configuration values for ECS, Lambda, and Aurora
    * These are used when saasWorkload-derived infrastructure is created
    */
-  defaults: z
-    .object({
-      ecs: z
-        .object({
-          webapp: z
-            .object({
-              cpu: z.number().default(256),
-              memoryMiB: z.number().default(512),
-              desiredCount: z.number().default(1),
-            })
-            .optional(),
-          api: z
-            .object({
-              cpu: z.number().default(512),
-              memoryMiB: z.number().default(1024),
-              desiredCount: z.number().default(1),
-            })
-            .optional(),
-        })
-        .optional(),
-      lambda: z
-        .object({
-          /** Memory size in MB (more memory = more CPU = faster cold starts) */
-          memorySize: z.number().min(128).max(10240).default(1024),
-          /** Timeout in seconds */
-          timeout: z.number().min(1).max(900).default(30),
-          /**
-           * EventBridge bus name for async event publishing
-           * Supports {env} placeholder which is replaced with environment name
-           * @example "saas-{env}-events" → "saas-nprd-events"
-           */
-          eventBridgeBusName: z.string().optional(),
-        })
-        .optional(),
-      aurora: z
-        .object({
-          minCapacity: z.number().default(0.5),
-          maxCapacity: z.number().default(2),
-          engineVersion: z.string().default('16.4'),
-        })
-        .optional(),
-    })
-    .optional(),
+  defaults: WorkloadDefaultsSchema.optional(),
 
   /**
    * SaaS Applications (Brands) - Convention-over-Configuration (LEGACY)
@@ -621,22 +688,34 @@ export const UnifiedAppConfigSchema = z.object({
   /**
    * Networking configuration
    * Deploys to environments defined in the environments section
-   * Creates VPCs, subnets, security groups, and network infrastructure
+   * Creates VPCs, subnets, route tables, NAT/internet gateways, VPC endpoints and flow logs
    * Presence implies enabled - no 'enabled' flag needed
+   *
+   * The simple `vpc: { cidr, maxAzs, natGateways, ... }` form of schemaVersion 2 is
+   * upgraded to this configuration when the manifest declares `schemaVersion: 2`.
    */
-  networking: z
-    .object({
-      vpc: z
-        .object({
-          cidr: z.string().optional(),
-          maxAzs: z.number().min(1).max(3).optional(),
-          natGateways: z.number().min(0).max(3).optional(),
-          enableFlowLogs: z.boolean().optional(),
-          flowLogsRetentionDays: z.number().optional(),
-        })
-        .optional(),
-    })
-    .optional(),
+  networking: NetworkingConfigSchema.optional(),
+
+  /**
+   * Security configuration
+   * Creates security groups, network ACLs, IAM roles, KMS keys and Session Manager settings
+   * Presence implies enabled - no 'enabled' flag needed
+   */
+  security: SecurityConfigSchema.optional(),
+
+  /**
+   * Compliance configuration
+   * Enables CloudTrail, AWS Config, GuardDuty, Security Hub, Inspector and Access Analyzer
+   * Presence implies enabled - no 'enabled' flag needed
+   */
+  compliance: ComplianceConfigSchema.optional(),
+
+  /**
+   * DynamoDB configuration
+   * Creates single-table design tables with on-demand billing by default
+   * Presence implies enabled - no 'enabled' flag needed
+   */
+  dynamodb: DynamoDBConfigSchema.optional(),
 
   /**
    * Compute configuration
@@ -871,6 +950,7 @@ export const UnifiedAppConfigSchema = z.object({
 /**
  * Type inference for the unified application configuration
  */
+export type SimpleNetworkingConfig = z.infer<typeof SimpleNetworkingConfigSchema>;
 export type UnifiedAppConfig = z.infer<typeof UnifiedAppConfigSchema>;
 export type NamingConfig = z.infer<typeof NamingConfigSchema>;
 export type DeploymentTarget = z.infer<typeof DeploymentTargetSchema>;
@@ -0,0 +1,57 @@
+/**
+ * Schemas of earlier manifest versions
+ *
+ * `loadManifest` upgrades older manifests in memory, but editors validate the file as
+ * written. These schemas describe what each earlier `schemaVersion` accepts so that
+ * JSON schemas can be published for editors pinned to a previous version.
+ *
+ * They are derived from the current schema: sections introduced later are removed and
+ * fields that were removed later are added back.
+ */
+
+import { z } from 'zod';
+import {
+  MANIFEST_SCHEMA_VERSION,
+  SimpleNetworkingConfigSchema,
+  UnifiedAppConfigSchema,
+} from './unified';
+
+/**
+ * Manifest version 2: unified manifest with brands in `saasApps`
+ *
+ * `networking` only had the simple VPC sizing form; `security`, `compliance` and
+ * `dynamodb` did not exist yet.
+ */
+export const ManifestSchemaV2 = UnifiedAppConfigSchema.omit({
+  schemaVersion: true,
+  saasEdge: true,
+  saasWorkload: true,
+  infrastructure: true,
+  networking: true,
+  security: true,
+  compliance: true,
+  dynamodb: true,
+}).extend({
+  schemaVersion: z.literal(2).optional(),
+  networking: SimpleNetworkingConfigSchema.optional(),
+});
+
+/**
+ * Manifest version 1: the manifest type selected which components could be configured
+ */
+export const ManifestSchemaV1 = ManifestSchemaV2.extend({
+  schemaVersion: z.literal(1).optional(),
+  /**
+   * Kind of account the manifest configures (removed in version 2)
+   */
+  manifestType: z.enum(['management', 'workload', 'shared-services', 'baseline']),
+});
+
+/**
+ * Schema of every supported manifest version, keyed by `schemaVersion`
+ */
+export const MANIFEST_SCHEMAS_BY_VERSION: Readonly<Record<number, z.ZodTypeAny>> = {
+  1: ManifestSchemaV1,
+  2: ManifestSchemaV2,
+  [MANIFEST_SCHEMA_VERSION]: UnifiedAppConfigSchema,
+};
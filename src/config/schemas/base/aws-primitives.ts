@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AWS_REGION_PATTERN } from '../../../constants/regions';
 
 /**
  * AWS-specific primitive schema components for CodeIQLabs configuration files
@@ -13,7 +14,7 @@ import { z } from 'zod';
 export const AwsRegionSchema = z
   .string()
   .regex(
-    /^[a-z]{2}-[a-z]+-\d{1,2}$/,
+    AWS_REGION_PATTERN,
     'AWS Region must follow the format: {region}-{location}-{number} (e.g., "us-east-1")',
   );
 
@@ -2,7 +2,11 @@
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
-import { ManifestSchema } from './index';
+import { MANIFEST_SCHEMA_VERSION, MANIFEST_SCHEMAS_BY_VERSION, ManifestSchema } from './index';
+import type { z } from 'zod';
+
+const UNIFIED_DESCRIPTION =
+  'Unified schema for CodeIQLabs AWS manifest files. Supports component-based configuration where any component can be deployed to any account. No manifestType field - components define what gets deployed.';
 
 /**
  * Generate JSON Schema files for the unified manifest schema
@@ -16,21 +20,41 @@ export function generateJsonSchemas(): void {
     mkdirSync(schemasDir, { recursive: true });
   }
 
-  // Generate unified schema
-  generateUnifiedSchema(schemasDir);
+  // Generate unified schema (always the latest version)
+  generateUnifiedSchema(schemasDir, ManifestSchema, {
+    fileName: 'manifest.schema.json',
+    title: 'CodeIQLabs AWS Manifest (Unified)',
+    description: UNIFIED_DESCRIPTION,
+  });
+
+  // Generate one schema per manifest version for editors pinned to a version
+  for (const [version, schema] of Object.entries(MANIFEST_SCHEMAS_BY_VERSION)) {
+    generateUnifiedSchema(schemasDir, schema, {
+      fileName: `manifest.v${version}.schema.json`,
+      title: `CodeIQLabs AWS Manifest (schemaVersion ${version})`,
+      description:
+        Number(version) === MANIFEST_SCHEMA_VERSION
+          ? UNIFIED_DESCRIPTION
+          : `Schema for CodeIQLabs AWS manifests written for schemaVersion ${version}. loadManifest upgrades them to version ${MANIFEST_SCHEMA_VERSION} in memory.`,
+    });
+  }
 
   console.log('🎉 Unified JSON Schema generation complete!');
 }
 
 /**
- * Generate unified schema from the UnifiedAppConfigSchema
+ * Generate a manifest JSON schema file from a Zod schema
  */
-function generateUnifiedSchema(schemasDir: string): void {
-  console.log('📋 Generating unified manifest schema...');
+function generateUnifiedSchema(
+  schemasDir: string,
+  schema: z.ZodTypeAny,
+  metadata: { fileName: string; title: string; description: string },
+): void {
+  console.log(`📋 Generating ${metadata.fileName}...`);
 
   try {
     // Generate unified schema from Zod schema
-    const unifiedSchema = zodToJsonSchema(ManifestSchema, {
+    const unifiedSchema = zodToJsonSchema(schema, {
       name: 'CodeIQLabsAwsManifest',
       basePath: ['$defs'], // Place shared components under $defs
       $refStrategy: 'relative', // Encourage $ref usage for reusability
@@ -41,11 +65,10 @@ function generateUnifiedSchema(schemasDir: string): void {
 
     // Enhance the generated schema with proper metadata and optimized primitives
     const enhancedSchema = {
-      $id: 'https://schemas.codeiqlabs.dev/aws/manifest.schema.json',
+      $id: `https://schemas.codeiqlabs.dev/aws/${metadata.fileName}`,
       $schema: 'https://json-schema.org/draft/2020-12/schema',
-      title: 'CodeIQLabs AWS Manifest (Unified)',
-      description:
-        'Unified schema for CodeIQLabs AWS manifest files. Supports component-based configuration where any component can be deployed to any account. No manifestType field - components define what gets deployed.',
+      title: metadata.title,
+      description: metadata.description,
       ...unifiedSchema,
       $defs: {
         ...createOptimizedPrimitives(),
@@ -58,13 +81,13 @@ function generateUnifiedSchema(schemasDir: string): void {
     // Apply strict validation enhancements
     const optimizedSchema = applyStrictValidationRules(enhancedSchema);
 
-    // Write optimized unified schema
-    const unifiedPath = join(schemasDir, 'manifest.schema.json');
-    writeFileSync(unifiedPath, JSON.stringify(optimizedSchema, null, 2));
+    // Write optimized schema
+    const schemaPath = join(schemasDir, metadata.fileName);
+    writeFileSync(schemaPath, JSON.stringify(optimizedSchema, null, 2));
 
-    console.log('✅ Generated unified manifest.schema.json');
+    console.log(`✅ Generated ${metadata.fileName}`);
   } catch (error) {
-    console.error('❌ Failed to generate unified schema:', error);
+    console.error(`❌ Failed to generate ${metadata.fileName}:`, error);
     throw error;
   }
 }
@@ -53,6 +53,7 @@ export {
   ServiceControlPolicySchema,
   // Identity Center schemas
   UserConfigSchema,
+  GroupConfigSchema,
   PermissionSetConfigSchema,
   SSOAssignmentConfigSchema,
   IdentityCenterSchema,
@@ -80,6 +81,8 @@ export {
   ConfigServiceConfigSchema,
   GuardDutyConfigSchema,
   SecurityHubConfigSchema,
+  // DynamoDB schemas
+  DynamoDBConfigSchema,
   // Domain management schemas (simplified)
   DomainManagementSchema,
   RegisteredDomainSchema,
@@ -95,6 +98,10 @@ export {
 // Unified manifest schema (replaces legacy discriminated union)
 export { UnifiedAppConfigSchema as ManifestSchema } from './applications';
 
+// Cross-reference validation for schema-valid manifests
+export { validateManifestSemantics } from './validation/semantic-validators';
+export { validateIdentityCenterAssignments } from './validation/identity-center-validators';
+
 /**
  * Convenience re-exports for commonly used types
  */
@@ -136,6 +143,7 @@ export type {
   ServiceControlPolicyConfig,
   // Identity Center types
   UserConfig,
+  GroupConfig,
   PermissionSetConfig,
   SSOAssignmentConfig,
   IdentityCenterConfig,
@@ -165,6 +173,8 @@ export type {
   ConfigServiceConfig,
   GuardDutyConfig,
   SecurityHubConfig,
+  // DynamoDB types
+  DynamoDBConfig,
 } from './resources';
 
 // Unified application types
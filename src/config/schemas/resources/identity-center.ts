@@ -72,6 +72,18 @@ export const UserConfigSchema = z.object({
   userName: z.string().min(1).max(128).optional(), // Username for documentation/readability only
 });
 
+/**
+ * Identity Center Group configuration schema
+ *
+ * Like users, groups are not created by CloudFormation. This schema maps group keys
+ * used in assignments to existing group IDs.
+ */
+export const GroupConfigSchema = z.object({
+  key: KeySchema, // Internal reference key for assignments
+  groupId: PrincipalIdSchema, // Existing group ID from Identity Center (required)
+  displayName: z.string().min(1).max(1024).optional(), // Group name for documentation/readability only
+});
+
 /**
  * Permission Set configuration schema
  */
@@ -205,50 +217,252 @@ export const TrustedTokenIssuerSchema = z.object({
   tags: TagsSchema,
 });
 
+/**
+ * Where a normalized assignment was declared, as paths relative to
+ * `identityCenter.assignments`
+ */
+export interface AssignmentSource {
+  /** Path of the user or group key (e.g. `['budgettrack-nprd', 'AdministratorAccess', 1]`) */
+  principal: (string | number)[];
+  /** Path of the permission set key */
+  permissionSet: (string | number)[];
+  /** Path of the account key */
+  account: (string | number)[];
+}
+
+/**
+ * Assignment produced by {@link CompactAssignmentsMapSchema}
+ *
+ * `source` is non-enumerable, so it stays out of serialized output and structural
+ * comparisons. Copies of an assignment (e.g. via object spread) do not keep it.
+ */
+export type CompactAssignment = SSOAssignmentConfig & {
+  /** Where in the compact map the assignment was declared */
+  readonly source?: AssignmentSource;
+};
+
+/**
+ * Principals assigned one permission set in one account
+ *
+ * Either a list of user keys, or separate `users` and `groups` lists of keys.
+ * Unknown keys (e.g. a misspelled `user`) are rejected rather than ignored.
+ */
+export const CompactPrincipalsSchema = z.union([
+  z.array(KeySchema), // User keys (e.g., ["amirf", "alif"])
+  z
+    .object({
+      users: z.array(KeySchema).optional(), // User keys
+      groups: z.array(KeySchema).optional(), // Group keys
+    })
+    .strict()
+    .refine((principals) => principals.users !== undefined || principals.groups !== undefined, {
+      message: 'Principals must list users and/or groups',
+    }),
+]);
+
+/**
+ * Key that selects the permission-set-first layout of the compact assignments map
+ */
+const BY_PERMISSION_SET = 'byPermissionSet';
+
+/**
+ * One compact map entry: the principals of a permission set in an account
+ */
+interface CompactAssignmentEntry {
+  principals: z.infer<typeof CompactPrincipalsSchema>;
+  source: Omit<AssignmentSource, 'principal'> & { principals: (string | number)[] };
+}
+
+/**
+ * Expand compact map entries into assignments, ordered by account then permission set
+ */
+function normalizeCompactAssignments(
+  entries: Map<string, Map<string, CompactAssignmentEntry>>,
+): CompactAssignment[] {
+  const assignments: CompactAssignment[] = [];
+
+  for (const [accountKey, permissionSets] of entries) {
+    for (const [permissionSetName, { principals, source }] of permissionSets) {
+      const lists: Array<['USER' | 'GROUP', string[], (string | number)[]]> = Array.isArray(
+        principals,
+      )
+        ? [['USER', principals, source.principals]]
+        : [
+            ['USER', principals.users ?? [], [...source.principals, 'users']],
+            ['GROUP', principals.groups ?? [], [...source.principals, 'groups']],
+          ];
+
+      for (const [principalType, keys, listPath] of lists) {
+        keys.forEach((principalKey, index) => {
+          const assignment = {
+            principalType,
+            principalKey,
+            permissionSetName,
+            targetType: 'AWS_ACCOUNT' as const,
+            targetKey: accountKey,
+          };
+          Object.defineProperty(assignment, 'source', {
+            value: {
+              principal: [...listPath, index],
+              permissionSet: source.permissionSet,
+              account: source.account,
+            } satisfies AssignmentSource,
+            enumerable: false,
+          });
+          assignments.push(assignment);
+        });
+      }
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Account-first layout: { accountKey: { permissionSetName: principals } }
+ */
+const AccountFirstAssignmentsSchema = z
+  .record(
+    KeySchema, // Account key (e.g., "budgettrack-nprd")
+    z.record(NameSchema, CompactPrincipalsSchema), // Permission set name (e.g., "AdministratorAccess")
+  )
+  .superRefine((compactMap, ctx) => {
+    // Never treat the layout key as an account
+    if (BY_PERMISSION_SET in compactMap) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [BY_PERMISSION_SET],
+        message: `'${BY_PERMISSION_SET}' must map permission set names to account keys`,
+      });
+    }
+  });
+
+/**
+ * Permission-set-first layout: { byPermissionSet: { permissionSetName: { accountKey: principals } } }
+ */
+const PermissionSetFirstAssignmentsSchema = z
+  .object({
+    [BY_PERMISSION_SET]: z.record(
+      NameSchema, // Permission set name (e.g., "AdministratorAccess")
+      z.record(KeySchema, CompactPrincipalsSchema), // Account key (e.g., "budgettrack-nprd")
+    ),
+  })
+  .strict();
+
+/**
+ * Reject maps that mix `byPermissionSet` with account keys before trying the layouts,
+ * which would otherwise report the account keys as unknown or the layout key as an account
+ */
+function rejectMixedLayouts(compactMap: unknown, ctx: z.RefinementCtx): unknown {
+  if (
+    typeof compactMap === 'object' &&
+    compactMap !== null &&
+    BY_PERMISSION_SET in compactMap &&
+    Object.keys(compactMap).length > 1
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `'${BY_PERMISSION_SET}' cannot be combined with account keys (${Object.keys(
+        compactMap,
+      )
+        .filter((key) => key !== BY_PERMISSION_SET)
+        .join(', ')}): use either the permission-set-first or the account-first layout`,
+      fatal: true,
+    });
+  }
+  return compactMap;
+}
+
+/**
+ * Collect the entries of either layout, keyed by account then permission set
+ */
+function collectCompactEntries(
+  compactMap:
+    | z.infer<typeof AccountFirstAssignmentsSchema>
+    | z.infer<typeof PermissionSetFirstAssignmentsSchema>,
+): Map<string, Map<string, CompactAssignmentEntry>> {
+  const entries = new Map<string, Map<string, CompactAssignmentEntry>>();
+
+  if (BY_PERMISSION_SET in compactMap) {
+    // Regroup by account so both layouts produce the same assignment order
+    const { byPermissionSet } = compactMap as z.infer<typeof PermissionSetFirstAssignmentsSchema>;
+    for (const [permissionSetName, accounts] of Object.entries(byPermissionSet)) {
+      for (const [accountKey, principals] of Object.entries(accounts)) {
+        const accountEntries = entries.get(accountKey) ?? new Map<string, CompactAssignmentEntry>();
+        entries.set(accountKey, accountEntries);
+        accountEntries.set(permissionSetName, {
+          principals,
+          source: {
+            principals: [BY_PERMISSION_SET, permissionSetName, accountKey],
+            permissionSet: [BY_PERMISSION_SET, permissionSetName],
+            account: [BY_PERMISSION_SET, permissionSetName, accountKey],
+          },
+        });
+      }
+    }
+    return entries;
+  }
+
+  for (const [accountKey, permissionSets] of Object.entries(
+    compactMap as z.infer<typeof AccountFirstAssignmentsSchema>,
+  )) {
+    const accountEntries = new Map<string, CompactAssignmentEntry>();
+    for (const [permissionSetName, principals] of Object.entries(permissionSets)) {
+      accountEntries.set(permissionSetName, {
+        principals,
+        source: {
+          principals: [accountKey, permissionSetName],
+          permissionSet: [accountKey, permissionSetName],
+          account: [accountKey],
+        },
+      });
+    }
+    entries.set(accountKey, accountEntries);
+  }
+  return entries;
+}
+
 /**
  * Compact assignments map schema
- * Format: { accountKey: { permissionSetName: [userKey1, userKey2] } }
  *
- * This is a human-friendly format that gets transformed to the array format.
+ * This is a human-friendly format that gets transformed to the array format
+ * (`SSOAssignmentConfig[]`). Two layouts are supported and produce the same array:
+ * - Account first: `{ accountKey: { permissionSetName: principals } }`
+ * - Permission set first: `{ byPermissionSet: { permissionSetName: { accountKey: principals } } }`
+ *
+ * Principals are either a list of user keys or an object with `users` and/or
+ * `groups` lists. Assignments are ordered by account, then permission set, then
+ * users before groups. A map cannot mix `byPermissionSet` with account keys.
  *
  * @example
  * ```yaml
  * assignments:
  *   budgettrack-nprd:
  *     AdministratorAccess: [amirf]
- *     PowerUserAccess: [amirf, alif]
+ *     PowerUserAccess:
+ *       users: [amirf, alif]
+ *       groups: [developers]
  *   budgettrack-prod:
  *     AdministratorAccess: [amirf]
+ *
+ * # Same assignments, keyed by permission set
+ * assignments:
+ *   byPermissionSet:
+ *     AdministratorAccess:
+ *       budgettrack-nprd: [amirf]
+ *       budgettrack-prod: [amirf]
+ *     PowerUserAccess:
+ *       budgettrack-nprd:
+ *         users: [amirf, alif]
+ *         groups: [developers]
  * ```
  */
 export const CompactAssignmentsMapSchema = z
-  .record(
-    KeySchema, // Account key (e.g., "budgettrack-nprd")
-    z.record(
-      NameSchema, // Permission set name (e.g., "AdministratorAccess")
-      z.array(KeySchema), // Array of user keys (e.g., ["amirf", "alif"])
-    ),
+  .preprocess(
+    rejectMixedLayouts,
+    z.union([PermissionSetFirstAssignmentsSchema, AccountFirstAssignmentsSchema]),
   )
-  .transform((compactMap) => {
-    // Transform compact map to array of SSOAssignmentConfig
-    const assignments: z.infer<typeof SSOAssignmentConfigSchema>[] = [];
-
-    for (const [accountKey, permissionSets] of Object.entries(compactMap)) {
-      for (const [permissionSetName, userKeys] of Object.entries(permissionSets)) {
-        for (const userKey of userKeys) {
-          assignments.push({
-            principalType: 'USER' as const,
-            principalKey: userKey,
-            permissionSetName,
-            targetType: 'AWS_ACCOUNT' as const,
-            targetKey: accountKey,
-          });
-        }
-      }
-    }
-
-    return assignments;
-  });
+  .transform((compactMap) => normalizeCompactAssignments(collectCompactEntries(compactMap)));
 
 /**
  * Main Identity Center configuration schema
@@ -259,6 +473,7 @@ export const IdentityCenterSchema = z.object({
   identityStoreId: IdentityStoreIdSchema.optional(), // Required for user creation
   identitySource: IdentitySourceSchema.optional(),
   users: z.array(UserConfigSchema).optional(), // Users to create
+  groups: z.array(GroupConfigSchema).optional(), // Existing groups referenced by assignments
   permissionSets: z.array(PermissionSetConfigSchema),
   assignments: CompactAssignmentsMapSchema, // Compact map format that transforms to array
   applications: z.array(ApplicationConfigSchema).optional(),
@@ -272,6 +487,7 @@ export type IdentityStoreId = z.infer<typeof IdentityStoreIdSchema>;
 export type PermissionSetArn = z.infer<typeof PermissionSetArnSchema>;
 export type PrincipalId = z.infer<typeof PrincipalIdSchema>;
 export type UserConfig = z.infer<typeof UserConfigSchema>;
+export type GroupConfig = z.infer<typeof GroupConfigSchema>;
 export type PermissionSetConfig = z.infer<typeof PermissionSetConfigSchema>;
 export type SSOAssignmentConfig = z.infer<typeof SSOAssignmentConfigSchema>;
 export type IdentitySource = z.infer<typeof IdentitySourceSchema>;
@@ -0,0 +1,155 @@
+/**
+ * Identity Center assignment validation
+ *
+ * The compact assignments map is normalized by the schema without checking what its
+ * keys refer to. This module resolves every normalized assignment against the
+ * manifest so that typos are reported before CloudFormation sees them:
+ * - users and groups referenced by `principalKey` must exist in `identityCenter.users`
+ *   and `identityCenter.groups`
+ * - permission sets must exist in `identityCenter.permissionSets`
+ * - account keys must match an account in `organization.organizationalUnits[].accounts`
+ *   (only checked when the manifest defines an organization)
+ *
+ * Permission sets, users and groups that are never assigned are reported as warnings.
+ */
+
+import type { ManifestIssue } from '../../utils/issues';
+import type { UnifiedAppConfig } from '../applications';
+import type { SSOAssignmentConfig } from '../resources/identity-center';
+
+/**
+ * How each principal type is named in messages and where it is defined
+ */
+const PRINCIPAL_KINDS = {
+  USER: { label: 'User', section: 'users', code: 'unknown_user' },
+  GROUP: { label: 'Group', section: 'groups', code: 'unknown_group' },
+} as const;
+
+/**
+ * Validate the assignments of the `identityCenter` section
+ *
+ * @param config - Manifest that passed schema validation
+ * @returns Dangling references as errors, unused permission sets and unassigned users or
+ *   groups as warnings (empty when the manifest has no `identityCenter` section)
+ *
+ * @example
+ * ```typescript
+ * const issues = validateIdentityCenterAssignments(config);
+ * const errors = issues.filter((issue) => issue.severity !== 'warning');
+ * ```
+ */
+export function validateIdentityCenterAssignments(config: UnifiedAppConfig): ManifestIssue[] {
+  const identityCenter = config.identityCenter;
+  if (!identityCenter) return [];
+
+  const issues: ManifestIssue[] = [];
+  const base = ['identityCenter', 'assignments'];
+
+  const principals = {
+    USER: new Set((identityCenter.users ?? []).map((user) => user.key)),
+    GROUP: new Set((identityCenter.groups ?? []).map((group) => group.key)),
+  };
+  const permissionSets = new Set(identityCenter.permissionSets.map((set) => set.name));
+  const accounts = config.organization
+    ? new Set(
+        config.organization.organizationalUnits.flatMap((unit) =>
+          unit.accounts.map((account) => account.key),
+        ),
+      )
+    : undefined;
+
+  const assigned = { USER: new Set<string>(), GROUP: new Set<string>() };
+  const usedPermissionSets = new Set<string>();
+  const reported = new Set<string>();
+
+  // Report a dangling account or permission set at every place it is written; assignments
+  // expanded from the same compact map entry share that place and are reported once
+  const reportAt = (issue: ManifestIssue): void => {
+    const id = `${issue.code}\0${issue.path.join('\0')}`;
+    if (reported.has(id)) return;
+    reported.add(id);
+    issues.push(issue);
+  };
+
+  identityCenter.assignments.forEach((assignment, index) => {
+    const { source } = assignment;
+    const pathOf = (segments: (string | number)[] | undefined) => [
+      ...base,
+      ...(segments ?? [index]),
+    ];
+    usedPermissionSets.add(assignment.permissionSetName);
+
+    const { principalType, principalKey } = assignment;
+    if (principalKey) {
+      assigned[principalType].add(principalKey);
+      if (!principals[principalType].has(principalKey)) {
+        const { label, section, code } = PRINCIPAL_KINDS[principalType];
+        issues.push({
+          path: pathOf(source?.principal),
+          message: `${label} '${principalKey}' is not defined in identityCenter.${section}`,
+          code,
+        });
+      }
+    }
+
+    if (!permissionSets.has(assignment.permissionSetName)) {
+      reportAt({
+        path: pathOf(source?.permissionSet),
+        message: `Permission set '${assignment.permissionSetName}' is not defined in identityCenter.permissionSets`,
+        code: 'unknown_permission_set',
+      });
+    }
+
+    for (const accountKey of targetKeysOf(assignment)) {
+      if (accounts && !accounts.has(accountKey)) {
+        reportAt({
+          path: pathOf(source?.account),
+          message: `Account '${accountKey}' does not match any account in organization.organizationalUnits`,
+          code: 'unknown_account',
+        });
+      }
+    }
+  });
+
+  identityCenter.permissionSets.forEach((set, index) => {
+    if (!usedPermissionSets.has(set.name)) {
+      issues.push({
+        path: ['identityCenter', 'permissionSets', index, 'name'],
+        message: `Permission set '${set.name}' is not used by any assignment`,
+        code: 'unused_permission_set',
+        severity: 'warning',
+      });
+    }
+  });
+
+  identityCenter.users?.forEach((user, index) => {
+    if (!assigned.USER.has(user.key)) {
+      issues.push({
+        path: ['identityCenter', 'users', index, 'key'],
+        message: `User '${user.key}' has no assignments`,
+        code: 'unassigned_user',
+        severity: 'warning',
+      });
+    }
+  });
+
+  identityCenter.groups?.forEach((group, index) => {
+    if (!assigned.GROUP.has(group.key)) {
+      issues.push({
+        path: ['identityCenter', 'groups', index, 'key'],
+        message: `Group '${group.key}' has no assignments`,
+        code: 'unassigned_group',
+        severity: 'warning',
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Account keys targeted by an assignment
+ */
+function targetKeysOf(assignment: SSOAssignmentConfig): string[] {
+  return assignment.targetKeys ?? (assignment.targetKey ? [assignment.targetKey] : []);
+}
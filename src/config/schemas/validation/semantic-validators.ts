@@ -0,0 +1,163 @@
+/**
+ * Semantic validation for the unified manifest
+ *
+ * The Zod schema only checks the shape of each section. This module checks the
+ * references between sections, such as environment keys used in
+ * `infrastructure.targetEnvironments` or brand names used in `originZones.brands`.
+ * It runs on a manifest that has already passed schema validation.
+ */
+
+import type { ManifestIssue } from '../../utils/issues';
+import type { UnifiedAppConfig } from '../applications';
+import { validateIdentityCenterAssignments } from './identity-center-validators';
+
+/**
+ * Names that other sections may use to refer to the manifest's environments and brands
+ */
+interface ReferenceIndex {
+  environments: Set<string>;
+  brands: Set<string>;
+}
+
+/**
+ * Validate the cross-references of a schema-valid unified manifest
+ *
+ * Checks:
+ * - `infrastructure.targetEnvironments` reference keys of `environments`
+ * - `githubOidc.targets[].targetEnvironments` reference keys of `environments`
+ * - `domains.registeredDomains[].allowedEnvironments` reference keys of `environments`
+ * - `originZones.brands` and `secrets.brands` exactly match a `saasWorkload` name or
+ *   domain, a `saasEdge` domain or, in manifests not migrated yet, a legacy `saasApps`
+ *   name or domain
+ * - `secrets.items[].perBrand` is only used when `secrets.brands` is defined
+ * - Identity Center assignments resolve to existing users, permission sets and accounts
+ *   (see {@link validateIdentityCenterAssignments})
+ *
+ * @param config - Manifest that passed schema validation
+ * @returns Every broken reference found, with the JSON path of the offending value
+ *   (issues with `severity: 'warning'` do not make the manifest unusable)
+ *
+ * @example
+ * ```typescript
+ * const issues = validateManifestSemantics(config);
+ * for (const issue of issues) {
+ *   console.error(`${issue.path.join('.')}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateManifestSemantics(config: UnifiedAppConfig): ManifestIssue[] {
+  const index = buildReferenceIndex(config);
+
+  return [
+    ...checkEnvironmentReferences(config, index),
+    ...checkBrandReferences(config, index),
+    ...validateIdentityCenterAssignments(config),
+  ];
+}
+
+/**
+ * Collect the environment keys and brand identifiers defined by the manifest
+ */
+function buildReferenceIndex(config: UnifiedAppConfig): ReferenceIndex {
+  const brands = new Set<string>();
+
+  for (const app of config.saasWorkload ?? []) {
+    brands.add(app.name);
+    if (app.domain) brands.add(app.domain);
+  }
+  for (const edge of config.saasEdge ?? []) {
+    brands.add(edge.domain);
+  }
+  // Legacy brands, which the migration turns into saasWorkload and saasEdge entries
+  for (const app of config.saasApps ?? []) {
+    brands.add(app.name);
+    brands.add(app.domain);
+  }
+
+  return { environments: new Set(Object.keys(config.environments)), brands };
+}
+
+/**
+ * Check every list of environment keys against the environments section
+ */
+function checkEnvironmentReferences(
+  config: UnifiedAppConfig,
+  index: ReferenceIndex,
+): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+
+  const check = (references: string[] | undefined, path: (string | number)[]): void => {
+    references?.forEach((environment, position) => {
+      if (!index.environments.has(environment)) {
+        issues.push({
+          path: [...path, position],
+          message: `Environment '${environment}' is not defined in environments (defined: ${formatList(index.environments)})`,
+          code: 'unknown_environment',
+        });
+      }
+    });
+  };
+
+  check(config.infrastructure?.targetEnvironments, ['infrastructure', 'targetEnvironments']);
+
+  config.githubOidc?.targets.forEach((target, targetIndex) => {
+    check(target.targetEnvironments, ['githubOidc', 'targets', targetIndex, 'targetEnvironments']);
+  });
+
+  config.domains?.registeredDomains?.forEach((domain, domainIndex) => {
+    check(domain.allowedEnvironments, [
+      'domains',
+      'registeredDomains',
+      domainIndex,
+      'allowedEnvironments',
+    ]);
+  });
+
+  return issues;
+}
+
+/**
+ * Check brand lists against the saasWorkload, saasEdge and saasApps sections
+ */
+function checkBrandReferences(config: UnifiedAppConfig, index: ReferenceIndex): ManifestIssue[] {
+  const issues: ManifestIssue[] = [];
+
+  const check = (brands: string[] | undefined, path: (string | number)[]): void => {
+    brands?.forEach((brand, position) => {
+      if (!index.brands.has(brand)) {
+        issues.push({
+          path: [...path, position],
+          message:
+            index.brands.size > 0
+              ? `Brand '${brand}' does not match any saasWorkload, saasEdge or saasApps entry (known: ${formatList(index.brands)})`
+              : `Brand '${brand}' cannot be resolved: no saasWorkload, saasEdge or saasApps entries are defined`,
+          code: 'unknown_brand',
+        });
+      }
+    });
+  };
+
+  check(config.originZones?.brands, ['originZones', 'brands']);
+  check(config.secrets?.brands, ['secrets', 'brands']);
+
+  if (!config.secrets?.brands?.length) {
+    config.secrets?.items?.forEach((item, itemIndex) => {
+      if (item.perBrand) {
+        issues.push({
+          path: ['secrets', 'items', itemIndex, 'perBrand'],
+          message: `Secret '${item.key}' is perBrand but secrets.brands is not defined`,
+          code: 'missing_brands',
+        });
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Format a set of names for an error message
+ */
+function formatList(values: Set<string>): string {
+  return values.size > 0 ? [...values].join(', ') : 'none';
+}
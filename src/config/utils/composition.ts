@@ -0,0 +1,291 @@
+/**
+ * Manifest composition utilities
+ *
+ * Manifests can be assembled from several files so that shared blocks such as
+ * `naming`, `environments` and `defaults` live in one place:
+ *
+ * - `$include` directive: any mapping may contain `$include: <path>` or
+ *   `$include: [<path>, ...]`. Paths are relative to the including file. The
+ *   included documents are merged in order and the mapping's own keys are then
+ *   merged on top of them, so local values always win.
+ * - Overlays: `loadManifest` accepts an ordered list of overlay files that are
+ *   merged on top of the main manifest, last one wins.
+ *
+ * Merge semantics (applied for both includes and overlays):
+ * - Mappings are merged key by key, recursively
+ * - Scalars are replaced by the overriding value
+ * - An explicit `null` in the overriding document removes the key
+ * - Arrays follow the configured {@link ArrayMergeStrategy}:
+ *   - `merge-by-key` (default): when every item on both sides is a mapping with a
+ *     string `name` (or `key`) field, items with the same identity are merged
+ *     recursively, base order is kept and new items are appended. Any other
+ *     array is replaced.
+ *   - `replace`: the overriding array replaces the base array
+ *   - `concat`: the overriding items are appended to the base items
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { ManifestSourceMap } from './source-map';
+
+/**
+ * Key used to include other manifest files from within a mapping
+ */
+export const INCLUDE_DIRECTIVE = '$include';
+
+/**
+ * How arrays are combined when two manifest documents are merged
+ */
+export type ArrayMergeStrategy = 'merge-by-key' | 'replace' | 'concat';
+
+/**
+ * Options for merging manifest documents
+ */
+export interface ManifestMergeOptions {
+  /**
+   * How arrays are combined
+   * @default 'merge-by-key'
+   */
+  arrayMerge?: ArrayMergeStrategy;
+
+  /**
+   * Source map to keep up to date so merged values can still be traced to their file
+   */
+  sourceMap?: ManifestSourceMap;
+}
+
+/**
+ * Fields used to identify array items for the `merge-by-key` strategy, in priority order
+ */
+const IDENTITY_FIELDS = ['name', 'key'] as const;
+
+/**
+ * Check whether a value is a plain mapping (not an array or null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the identity field shared by every item of both arrays, if any
+ */
+function findIdentityField(base: unknown[], override: unknown[]): string | undefined {
+  const items = [...base, ...override];
+  if (items.length === 0) return undefined;
+
+  return IDENTITY_FIELDS.find((field) =>
+    items.every((item) => isPlainObject(item) && typeof item[field] === 'string'),
+  );
+}
+
+/**
+ * Merge two arrays according to the configured strategy
+ */
+function mergeArrays(
+  base: unknown[],
+  override: unknown[],
+  options: ManifestMergeOptions,
+): unknown[] {
+  const strategy = options.arrayMerge ?? 'merge-by-key';
+
+  if (strategy === 'concat') {
+    const merged = [...base, ...override];
+    options.sourceMap?.link(merged, [
+      ...base.map((_, index): [string, unknown, string] => [String(index), base, String(index)]),
+      ...override.map((_, index): [string, unknown, string] => [
+        String(base.length + index),
+        override,
+        String(index),
+      ]),
+    ]);
+    return merged;
+  }
+
+  const identityField = strategy === 'merge-by-key' ? findIdentityField(base, override) : undefined;
+  if (!identityField) {
+    const replaced = [...override];
+    options.sourceMap?.inherit(replaced, override);
+    return replaced;
+  }
+
+  const merged = [...base] as Record<string, unknown>[];
+  const origins: Array<[string, unknown, string]> = base.map((_, index) => [
+    String(index),
+    base,
+    String(index),
+  ]);
+  override.forEach((item, overrideIndex) => {
+    const record = item as Record<string, unknown>;
+    const index = merged.findIndex((existing) => existing[identityField] === record[identityField]);
+    if (index === -1) {
+      origins.push([String(merged.length), override, String(overrideIndex)]);
+      merged.push(record);
+    } else {
+      merged[index] = deepMergeManifests(merged[index], record, options) as Record<string, unknown>;
+    }
+  });
+  options.sourceMap?.link(merged, origins);
+  return merged;
+}
+
+/**
+ * Deep-merge two manifest documents
+ *
+ * Neither input is mutated. See the module documentation for the merge semantics.
+ *
+ * @param base - Base document
+ * @param override - Document whose values take precedence
+ * @param options - Merge options
+ * @returns The merged document
+ *
+ * @example
+ * ```typescript
+ * deepMergeManifests(
+ *   { saasWorkload: [{ name: 'savvue', webapp: true }] },
+ *   { saasWorkload: [{ name: 'savvue', lambdaApi: true }] },
+ * );
+ * // { saasWorkload: [{ name: 'savvue', webapp: true, lambdaApi: true }] }
+ * ```
+ */
+export function deepMergeManifests(
+  base: unknown,
+  override: unknown,
+  options: ManifestMergeOptions = {},
+): unknown {
+  if (override === undefined) return base;
+
+  if (Array.isArray(base) && Array.isArray(override)) {
+    return mergeArrays(base, override, options);
+  }
+
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (key in merged) {
+      merged[key] = deepMergeManifests(merged[key], value, options);
+    } else {
+      merged[key] = value;
+    }
+  }
+  options.sourceMap?.link(
+    merged,
+    Object.keys(merged).map((key) => [key, key in override ? override : base, key]),
+  );
+  return merged;
+}
+
+/**
+ * Options for loading a composed manifest document
+ */
+export interface ComposeDocumentOptions extends ManifestMergeOptions {
+  /**
+   * Turns raw file content into a document (environment expansion + parsing)
+   */
+  parse: (content: string, filePath: string) => unknown;
+}
+
+/**
+ * Result of loading a manifest document with all of its includes resolved
+ */
+export interface ComposedDocument {
+  /** The document with every `$include` directive resolved */
+  data: unknown;
+  /** Absolute paths of every file that contributed, in load order */
+  files: string[];
+}
+
+/**
+ * Load a manifest document and resolve its `$include` directives recursively
+ *
+ * @param filePath - Path to the manifest file
+ * @param options - Parsing and merge options
+ * @returns The composed document and the files that contributed to it
+ * @throws Error if an include cannot be read or includes form a cycle
+ */
+export function loadComposedDocument(
+  filePath: string,
+  options: ComposeDocumentOptions,
+): ComposedDocument {
+  const files: string[] = [];
+  const data = loadDocument(resolve(filePath), options, files, []);
+  return { data, files };
+}
+
+/**
+ * Read, parse and resolve includes for a single file
+ */
+function loadDocument(
+  absolutePath: string,
+  options: ComposeDocumentOptions,
+  files: string[],
+  stack: string[],
+): unknown {
+  if (stack.includes(absolutePath)) {
+    throw new Error(
+      `Circular ${INCLUDE_DIRECTIVE} detected: ${[...stack, absolutePath].join(' -> ')}`,
+    );
+  }
+
+  const content = readFileSync(absolutePath, 'utf-8');
+  if (!files.includes(absolutePath)) {
+    files.push(absolutePath);
+  }
+
+  const document = options.parse(content, absolutePath);
+  return resolveIncludes(document, absolutePath, options, files, [...stack, absolutePath]);
+}
+
+/**
+ * Walk a parsed document and replace `$include` directives with the included content
+ */
+function resolveIncludes(
+  node: unknown,
+  currentFile: string,
+  options: ComposeDocumentOptions,
+  files: string[],
+  stack: string[],
+): unknown {
+  if (Array.isArray(node)) {
+    const items = node.map((item) => resolveIncludes(item, currentFile, options, files, stack));
+    options.sourceMap?.inherit(items, node);
+    return items;
+  }
+
+  if (!isPlainObject(node)) {
+    return node;
+  }
+
+  const { [INCLUDE_DIRECTIVE]: include, ...rest } = node;
+
+  const local: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    local[key] = resolveIncludes(value, currentFile, options, files, stack);
+  }
+  options.sourceMap?.inherit(local, node);
+
+  if (include === undefined) {
+    return local;
+  }
+
+  const includePaths = Array.isArray(include) ? include : [include];
+  let merged: unknown = {};
+  for (const includePath of includePaths) {
+    if (typeof includePath !== 'string' || includePath.trim() === '') {
+      throw new Error(`Invalid ${INCLUDE_DIRECTIVE} in ${currentFile}: expected a file path`);
+    }
+    const included = loadDocument(
+      resolve(dirname(currentFile), includePath),
+      options,
+      files,
+      stack,
+    );
+    merged = deepMergeManifests(merged, included, options);
+  }
+
+  return deepMergeManifests(merged, local, options);
+}
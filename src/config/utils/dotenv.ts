@@ -0,0 +1,190 @@
+/**
+ * dotenv file loading for manifest variable expansion
+ *
+ * Developers keep local values in `.env` and `.env.<environment>` files instead of
+ * exporting them before every `cdk synth`. When `loadManifest` is given the `dotenv`
+ * option, `${VAR}` placeholders are resolved from these sources, highest precedence
+ * first:
+ *
+ * 1. Explicit `envVars`
+ * 2. `process.env`
+ * 3. The environment-specific file (`.env.<environment>`)
+ * 4. The base file (`.env`)
+ *
+ * Supported file syntax: `KEY=value` lines with an optional `export ` prefix, `#`
+ * comments (whole lines, or after an unquoted value), single-quoted literal values and
+ * double-quoted values with `\n`, `\r`, `\t`, `\"` and `\\` escapes. Quoted values
+ * may span several lines.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+
+/**
+ * Options for reading dotenv files
+ */
+export interface DotenvOptions {
+  /**
+   * Directory containing the files
+   * @default process.cwd()
+   */
+  dir?: string;
+  /**
+   * Environment whose `.env.<environment>` file overrides `.env` (e.g. `nprd`)
+   */
+  environment?: string;
+  /**
+   * Files to read instead of `.env` and `.env.<environment>`, lowest precedence first
+   * Relative paths are resolved against `dir`. Unlike the default files, these must exist.
+   */
+  files?: string[];
+}
+
+/**
+ * Where the value of an expanded variable came from
+ */
+export interface EnvVarSource {
+  /** `envVars` option, `process.env` or a dotenv file */
+  type: 'envVars' | 'process' | 'dotenv';
+  /** Absolute path of the dotenv file (for `dotenv` sources) */
+  file?: string;
+}
+
+/**
+ * Variables available for expansion, with the source of each
+ */
+export interface ResolvedEnvVars {
+  values: Record<string, string>;
+  sources: Record<string, EnvVarSource>;
+  /** Dotenv files that were read, lowest precedence first */
+  files: string[];
+}
+
+const KEY_PATTERN = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * Find the closing quote of a quoted value, skipping escaped double quotes
+ */
+function findClosingQuote(value: string, quote: string): number {
+  for (let index = 0; index < value.length; index++) {
+    if (quote === '"' && value[index] === '\\') {
+      index++;
+    } else if (value[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse the content of a dotenv file
+ *
+ * @param content - File content
+ * @param filePath - File path used in error messages
+ * @returns The variables defined in the file (later definitions win)
+ * @throws Error with the line number when a line is not a `KEY=value` assignment or a
+ * quoted value is not terminated
+ *
+ * @example
+ * ```typescript
+ * parseDotenv('ACCOUNT_ID=123456789012 # nprd\nexport GREETING="hello\\nworld"');
+ * // { ACCOUNT_ID: '123456789012', GREETING: 'hello\nworld' }
+ * ```
+ */
+export function parseDotenv(content: string, filePath = '.env'): Record<string, string> {
+  const vars: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const match = KEY_PATTERN.exec(line);
+    if (!match) {
+      throw new Error(`${filePath}:${index + 1}: Expected KEY=value`);
+    }
+
+    const [, key, rest] = match;
+    const quote = rest[0];
+    if (quote !== '"' && quote !== "'") {
+      vars[key] = rest.replace(/(^|\s+)#.*$/, '').trim();
+      continue;
+    }
+
+    // Quoted values continue on the following lines until the closing quote
+    const startLine = index;
+    let value = lines[index].trimStart().slice(lines[index].trimStart().indexOf(quote) + 1);
+    let end = findClosingQuote(value, quote);
+    while (end === -1 && index + 1 < lines.length) {
+      index++;
+      value += `\n${lines[index]}`;
+      end = findClosingQuote(value, quote);
+    }
+    if (end === -1) {
+      throw new Error(`${filePath}:${startLine + 1}: Unterminated ${quote} quote in ${key}`);
+    }
+
+    const trailing = value.slice(end + 1).trim();
+    if (trailing !== '' && !trailing.startsWith('#')) {
+      throw new Error(`${filePath}:${index + 1}: Unexpected '${trailing}' after quoted ${key}`);
+    }
+
+    value = value.slice(0, end);
+    vars[key] =
+      quote === '"' ? value.replace(/\\([nrt"\\])/g, (_, char: string) => ESCAPES[char]) : value;
+  }
+
+  return vars;
+}
+
+/**
+ * Resolve the variables available for `${VAR}` expansion and where each one comes from
+ *
+ * Without `dotenv`, only `envVars` (when given) or `process.env` is used. With `dotenv`,
+ * the sources are layered in the precedence documented in this module.
+ *
+ * @param envVars - Explicit variables
+ * @param dotenv - Dotenv files to read (`true` for `.env` in the current directory)
+ * @returns The merged variables, their sources and the dotenv files that were read
+ * @throws Error if a dotenv file cannot be parsed or an explicitly listed file is missing
+ */
+export function resolveEnvVars(
+  envVars?: Record<string, string>,
+  dotenv?: boolean | DotenvOptions,
+): ResolvedEnvVars {
+  const resolved: ResolvedEnvVars = { values: {}, sources: {}, files: [] };
+  const assign = (vars: Record<string, string | undefined>, source: EnvVarSource) => {
+    for (const [key, value] of Object.entries(vars)) {
+      if (value === undefined) continue;
+      resolved.values[key] = value;
+      resolved.sources[key] = source;
+    }
+  };
+
+  if (dotenv) {
+    const { dir = process.cwd(), environment, files } = dotenv === true ? {} : dotenv;
+    const candidates = (files ?? ['.env', ...(environment ? [`.env.${environment}`] : [])]).map(
+      (file) => resolve(dir, file),
+    );
+
+    for (const file of candidates) {
+      if (!existsSync(file)) {
+        if (files) throw new Error(`Dotenv file not found: ${file}`);
+        continue;
+      }
+      assign(parseDotenv(readFileSync(file, 'utf-8'), file), { type: 'dotenv', file });
+      resolved.files.push(file);
+    }
+  }
+
+  if (!envVars || dotenv) {
+    assign(process.env, { type: 'process' });
+  }
+  if (envVars) {
+    assign(envVars, { type: 'envVars' });
+  }
+
+  return resolved;
+}
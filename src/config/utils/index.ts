@@ -9,6 +9,24 @@
 // Re-export all loader utilities
 export * from './loaders';
 
+// Re-export manifest composition utilities ($include directives and overlays)
+export * from './composition';
+
+// Re-export dotenv file loading for variable expansion
+export * from './dotenv';
+
+// Re-export manifest-internal reference resolution
+export * from './references';
+
+// Re-export legacy section migration and schema upgrade utilities
+export * from './saas-apps-migration';
+export * from './networking-migration';
+export * from './upgrades';
+
+// Re-export source location and issue reporting utilities
+export * from './source-map';
+export * from './issues';
+
 /**
  * Convenience re-exports for the most commonly used utilities
  */
@@ -21,6 +39,13 @@ export {
   expandEnvironmentVariables,
 } from './loaders';
 
+export { deepMergeManifests, INCLUDE_DIRECTIVE } from './composition';
+export { parseDotenv, resolveEnvVars } from './dotenv';
+export { resolveManifestReferences } from './references';
+export { formatManifestIssues } from './issues';
+export { migrateSaasApps } from './saas-apps-migration';
+export { upgradeManifest, MANIFEST_UPGRADE_STEPS } from './upgrades';
+
 /**
  * Re-export types for convenience
  */
@@ -30,4 +55,18 @@ export type {
   ManifestLoadError,
   ManifestResult,
   LoadManifestOptions,
+  ExpandEnvironmentVariablesOptions,
+  MissingEnvironmentVariable,
+  EnvironmentVariableReplacement,
 } from './loaders';
+
+export type { ArrayMergeStrategy, ManifestMergeOptions } from './composition';
+export type { DotenvOptions, EnvVarSource, ResolvedEnvVars } from './dotenv';
+export type {
+  ResolveManifestReferencesOptions,
+  ResolveManifestReferencesResult,
+} from './references';
+export type { SaasAppsMigrationResult } from './saas-apps-migration';
+export type { ManifestUpgradeResult, ManifestUpgradeStep } from './upgrades';
+export type { ManifestIssue, ManifestIssueSeverity } from './issues';
+export type { SourceLocation } from './source-map';
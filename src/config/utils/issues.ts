@@ -0,0 +1,113 @@
+/**
+ * Manifest issue reporting
+ *
+ * Validation problems are reported as {@link ManifestIssue} objects that carry the
+ * JSON path of the offending value and, when the manifest was loaded from disk,
+ * its file, line, column and a code-frame snippet.
+ */
+
+import type { z } from 'zod';
+import type { ManifestSourceMap, SourceLocation } from './source-map';
+
+/**
+ * How serious a manifest issue is
+ * - `error`: the manifest cannot be used
+ * - `warning`: the manifest is usable but probably not what was intended
+ */
+export type ManifestIssueSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found in a manifest
+ */
+export interface ManifestIssue {
+  /** Path to the offending value (e.g. ['saasWorkload', 2, 'scheduledJobs', 0, 'schedule']) */
+  path: (string | number)[];
+  /** Human-readable description of the problem */
+  message: string;
+  /** Machine-readable issue code (Zod issue code for schema errors) */
+  code: string;
+  /** How serious the issue is (default: 'error') */
+  severity?: ManifestIssueSeverity;
+  /** Where the value is defined, when known */
+  location?: SourceLocation;
+  /** Source lines around the location with a caret under the column */
+  snippet?: string;
+}
+
+/**
+ * Attach source locations and code frames to issues
+ *
+ * @param issues - Issues without location information
+ * @param data - The document root the issue paths refer to
+ * @param sourceMap - Source map produced while loading the document
+ * @returns The issues with `location` and `snippet` filled in where known
+ */
+export function locateIssues(
+  issues: ManifestIssue[],
+  data: unknown,
+  sourceMap: ManifestSourceMap,
+): ManifestIssue[] {
+  return issues.map((issue) => {
+    const location = sourceMap.locate(data, issue.path);
+    if (!location) return issue;
+    return { ...issue, location, snippet: sourceMap.codeFrame(location) };
+  });
+}
+
+/**
+ * Convert a ZodError into manifest issues
+ *
+ * A value that matches no member of a union is reported with the issues of the
+ * member it came closest to (the one with the fewest issues) instead of a bare
+ * "Invalid input".
+ *
+ * @param error - Error returned by schema validation
+ * @returns One issue per Zod issue
+ */
+export function zodErrorToIssues(error: z.ZodError): ManifestIssue[] {
+  return error.issues.flatMap((issue): ManifestIssue[] => {
+    if (issue.code === 'invalid_union' && issue.unionErrors.length > 0) {
+      const closest = issue.unionErrors.reduce((best, candidate) =>
+        candidate.issues.length < best.issues.length ? candidate : best,
+      );
+      return zodErrorToIssues(closest);
+    }
+    return [{ path: [...issue.path], message: issue.message, code: issue.code }];
+  });
+}
+
+/**
+ * Format a path as a dotted string (e.g. `saasWorkload.2.scheduledJobs.0.schedule`)
+ */
+export function formatIssuePath(path: ReadonlyArray<string | number>): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+/**
+ * Format issues in a compiler-style layout
+ *
+ * @param issues - Issues to format
+ * @param fallbackFile - File name to use for issues without a location
+ * @returns Multi-line report, one block per issue
+ *
+ * @example
+ * ```text
+ * /repo/src/manifest.yaml:42:19 - error invalid_type: Expected string, received number (saasWorkload.2.scheduledJobs.0.schedule)
+ *
+ *   40 |     scheduledJobs:
+ *   41 |       - name: auto-matcher
+ * > 42 |         schedule: 5
+ *      |                   ^
+ * ```
+ */
+export function formatManifestIssues(issues: ManifestIssue[], fallbackFile?: string): string {
+  return issues
+    .map((issue) => {
+      const where = issue.location
+        ? `${issue.location.file}:${issue.location.line}:${issue.location.column}`
+        : (fallbackFile ?? '<manifest>');
+      const header = `${where} - ${issue.severity ?? 'error'} ${issue.code}: ${issue.message} (${formatIssuePath(issue.path)})`;
+      return issue.snippet ? `${header}\n\n${issue.snippet}\n` : header;
+    })
+    .join('\n');
+}
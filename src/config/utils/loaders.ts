@@ -3,7 +3,15 @@ import { extname } from 'path';
 import { load } from 'js-yaml';
 import type { z } from 'zod';
 import { validateManifest } from '../schemas/validation/manifest-validators';
+import { validateManifestSemantics } from '../schemas/validation/semantic-validators';
 import type { UnifiedAppConfig } from '../schemas';
+import { deepMergeManifests, loadComposedDocument, type ArrayMergeStrategy } from './composition';
+import { resolveEnvVars, type DotenvOptions, type EnvVarSource } from './dotenv';
+import { locateIssues, zodErrorToIssues, type ManifestIssue } from './issues';
+import { isManifestReference, resolveManifestReferences } from './references';
+import { ManifestSourceMap } from './source-map';
+import type { OriginalSource } from './source-map';
+import { upgradeManifest } from './upgrades';
 
 /**
  * Generic configuration loader with auto-detection and comprehensive format support
@@ -11,10 +19,14 @@ import type { UnifiedAppConfig } from '../schemas';
  * This utility provides a standardized way to load and validate configuration files
  * across CodeIQLabs projects. It supports:
  * - YAML and JSON file parsing
- * - Environment variable expansion (${VAR_NAME} syntax)
+ * - Environment variable expansion (${VAR_NAME} syntax), optionally from `.env` files
+ * - Manifest composition via `$include` directives and overlay files
+ * - Manifest-internal references (${naming.project} syntax)
+ * - In-memory upgrades of manifests written for an older `schemaVersion`
  * - Automatic manifest type detection via discriminated unions
  * - Zod schema validation
- * - Detailed error reporting
+ * - Cross-reference validation (environment keys, brand names)
+ * - Detailed error reporting with file, line and column for every issue
  * - Batch loading from directories or glob patterns
  */
 
@@ -32,6 +44,22 @@ export interface ManifestLoadResult {
   type: 'unified';
   filePath: string;
   format: ManifestFormat;
+  /**
+   * Absolute paths of every file that contributed to the manifest, in load order
+   * (the main manifest, its includes, then each overlay and its includes), followed by
+   * the dotenv files that were read
+   */
+  files: string[];
+  /**
+   * Where each expanded `${VAR}` got its value, keyed by variable name
+   * (present when environment variables were expanded)
+   */
+  envSources?: Record<string, EnvVarSource>;
+  /**
+   * Non-fatal issues with source locations: schema upgrades applied in memory and
+   * semantic validation findings (e.g. unused permission sets)
+   */
+  warnings?: ManifestIssue[];
 }
 
 /**
@@ -41,8 +69,15 @@ export interface ManifestLoadError {
   success: false;
   error: string;
   details?: z.ZodError | Error;
+  /**
+   * Validation issues with source locations (file, line, column and code frame)
+   * Present when the manifest was parsed but failed validation
+   */
+  issues?: ManifestIssue[];
   filePath: string;
   format?: ManifestFormat;
+  /** Files that were read before the failure, in load order */
+  files?: string[];
 }
 
 /**
@@ -62,15 +97,68 @@ export interface LoadManifestOptions {
 
   /**
    * Custom environment variables to use for expansion
-   * If not provided, uses process.env
+   * If not provided, uses process.env. Without `dotenv`, process.env is not consulted
+   * when envVars is given.
    */
   envVars?: Record<string, string>;
 
+  /**
+   * Report every missing environment variable (as `missing_env_var` issues with source
+   * locations) instead of failing on the first one
+   * @default false
+   */
+  collectMissingEnvVars?: boolean;
+
+  /**
+   * Also read variables for expansion from dotenv files
+   * `true` reads `.env` from the current directory; pass options to read from another
+   * directory or add the environment-specific `.env.<environment>`. Precedence, highest
+   * first: `envVars`, process.env, `.env.<environment>`, `.env`.
+   * @see resolveEnvVars
+   */
+  dotenv?: boolean | DotenvOptions;
+
   /**
    * Whether to validate the manifest against the schema
    * @default true
    */
   validate?: boolean;
+
+  /**
+   * Whether to check cross-references after schema validation
+   * (environment keys, brand names, ...)
+   * @see validateManifestSemantics
+   * @default true
+   */
+  semanticValidation?: boolean;
+
+  /**
+   * Whether to resolve `${path.to.value}` references to other manifest values
+   * @see resolveManifestReferences
+   * @default true
+   */
+  resolveReferences?: boolean;
+
+  /**
+   * Whether to upgrade manifests written for an older `schemaVersion` in memory
+   * (each applied upgrade is reported in `warnings`)
+   * @see upgradeManifest
+   * @default true
+   */
+  upgrade?: boolean;
+
+  /**
+   * Overlay files deep-merged on top of the manifest, in order (last one wins)
+   * Each overlay may use `$include` directives like the main manifest.
+   */
+  overlays?: string[];
+
+  /**
+   * How arrays are combined when includes and overlays are merged
+   * @see ArrayMergeStrategy
+   * @default 'merge-by-key'
+   */
+  arrayMerge?: ArrayMergeStrategy;
 }
 
 /**
@@ -110,18 +198,40 @@ export function loadConfig<T>(path: string, schema: z.ZodType<T>): T {
 }
 
 /**
- * Parse file content based on file extension
+ * Parse file content based on file extension, recording source locations
  */
-function parseFileContent(content: string, format: ManifestFormat): unknown {
+function parseFileContent(
+  content: string,
+  format: ManifestFormat,
+  filePath: string,
+  sourceMap: ManifestSourceMap,
+  original: OriginalSource,
+): unknown {
   switch (format) {
     case 'yaml':
     case 'yml':
-      return load(content);
+      return sourceMap.parseYaml(content, filePath, original);
     default:
       throw new Error(`Unsupported file format: ${format}`);
   }
 }
 
+/**
+ * Map an offset in expanded content back to the content before expansion
+ *
+ * Offsets inside a replaced placeholder map to the start of the placeholder.
+ */
+function toOriginalOffset(offset: number, replacements: EnvironmentVariableReplacement[]): number {
+  let shift = 0;
+  for (const replacement of replacements) {
+    const start = replacement.offset + shift;
+    if (offset < start) break;
+    if (offset < start + replacement.value.length) return replacement.offset;
+    shift += replacement.value.length - replacement.length;
+  }
+  return offset - shift;
+}
+
 /**
  * Determine file format from file extension
  */
@@ -131,29 +241,148 @@ function getFileFormat(filePath: string): ManifestFormat {
   throw new Error(`Unsupported file extension: ${ext}`);
 }
 
+/**
+ * A `${VAR}` placeholder whose variable is not set
+ */
+export interface MissingEnvironmentVariable {
+  /** Variable name */
+  name: string;
+  /** Why the variable is needed (the `${VAR:?message}` text or a default message) */
+  message: string;
+  /** Index of the placeholder in the content being expanded */
+  offset: number;
+}
+
+/**
+ * A `${...}` placeholder replaced by environment variable expansion
+ */
+export interface EnvironmentVariableReplacement {
+  /** Index of the placeholder in the content being expanded */
+  offset: number;
+  /** Length of the placeholder */
+  length: number;
+  /** Text that replaces it */
+  value: string;
+}
+
+/**
+ * Options for expanding environment variables
+ */
+export interface ExpandEnvironmentVariablesOptions {
+  /** Called for every expanded variable */
+  onExpand?: (name: string, value: string) => void;
+  /**
+   * Called for every placeholder that is replaced (expanded variables, defaults, missing
+   * variables and escapes), in content order
+   */
+  onReplace?: (replacement: EnvironmentVariableReplacement) => void;
+  /**
+   * Called for every missing variable instead of throwing; the placeholder is replaced
+   * with an empty string
+   */
+  onMissing?: (missing: MissingEnvironmentVariable) => void;
+  /**
+   * Expand the whole content before failing, so that the error lists every missing
+   * variable instead of only the first one
+   * @default false
+   */
+  collectMissing?: boolean;
+}
+
+/**
+ * `${NAME}`, `${NAME:-default}` or `${NAME:?message}`, optionally escaped as `$${...}`
+ */
+const ENV_PLACEHOLDER_PATTERN = /(\$?)\$\{([^}]+)\}/g;
+
+const ENV_EXPRESSION_PATTERN = /^(.+?)(?::([-?])([^]*))?$/;
+
 /**
  * Expand environment variables in a string
  *
  * Replaces ${VAR_NAME} patterns with the corresponding environment variable values.
- * Supports both the original strict pattern and a more flexible pattern.
+ * Shell-like forms are supported as well:
+ * - `${VAR:-default}` uses `default` when VAR is unset or empty
+ * - `${VAR:?message}` fails with `message` when VAR is unset or empty
+ * - `$${VAR}` is an escape for the literal text `${VAR}`
+ *
+ * Manifest references such as `${naming.project}` (see `resolveManifestReferences`) are
+ * left in place, escaped or not.
+ *
  * Throws an error if a referenced environment variable is not set.
  *
  * @param content - String content with potential environment variable references
  * @param envVars - Environment variables to use (defaults to process.env)
+ * @param options - Expansion options
  * @returns String with environment variables expanded
- * @throws Error if any referenced environment variable is not set
+ * @throws Error if any referenced environment variable is not set (all of them with
+ * `collectMissing`)
+ *
+ * @example
+ * ```typescript
+ * expandEnvironmentVariables('region: ${AWS_REGION:-us-east-1}', {});
+ * // 'region: us-east-1'
+ *
+ * expandEnvironmentVariables('name: ${APP:?set APP to the brand name}', {});
+ * // throws: set APP to the brand name (environment variable APP is not set)
+ *
+ * expandEnvironmentVariables('template: $${literal}', {});
+ * // 'template: ${literal}'
+ * ```
  */
 export function expandEnvironmentVariables(
   content: string,
   envVars: Record<string, string> = process.env as Record<string, string>,
+  options: ExpandEnvironmentVariablesOptions = {},
 ): string {
-  return content.replace(/\$\{([^}]+)\}/g, (_, varName) => {
-    const value = envVars[varName];
-    if (value === undefined) {
-      throw new Error(`Environment variable ${varName} is required but not set`);
-    }
-    return value;
-  });
+  const collected: MissingEnvironmentVariable[] = [];
+  const onMissing =
+    options.onMissing ??
+    (options.collectMissing
+      ? (missing: MissingEnvironmentVariable) => collected.push(missing)
+      : (missing: MissingEnvironmentVariable) => {
+          throw new Error(missing.message);
+        });
+
+  const expanded = content.replace(
+    ENV_PLACEHOLDER_PATTERN,
+    (placeholder: string, escape: string, expression: string, offset: number) => {
+      if (isManifestReference(expression)) return placeholder;
+      const replace = (value: string): string => {
+        options.onReplace?.({ offset, length: placeholder.length, value });
+        return value;
+      };
+      if (escape) return replace(placeholder.slice(1));
+
+      const [, name, operator, argument] = ENV_EXPRESSION_PATTERN.exec(expression)!;
+      const value = envVars[name];
+      const isSet = operator ? value !== undefined && value !== '' : value !== undefined;
+      if (isSet) {
+        options.onExpand?.(name, value);
+        return replace(value);
+      }
+
+      if (operator === '-') return replace(argument);
+
+      onMissing({
+        name,
+        message:
+          operator === '?' && argument.trim() !== ''
+            ? `${argument.trim()} (environment variable ${name} is not set)`
+            : `Environment variable ${name} is required but not set`,
+        offset,
+      });
+      return replace('');
+    },
+  );
+
+  if (collected.length > 0) {
+    throw new Error(
+      `${collected.length} environment variable placeholder(s) could not be expanded:\n` +
+        collected.map((missing) => `  - ${missing.message}`).join('\n'),
+    );
+  }
+
+  return expanded;
 }
 
 /**
@@ -179,6 +408,22 @@ export function expandEnvironmentVariables(
  *   console.log(`Auto-detected ${result.type} manifest from ${result.filePath}`);
  *   // result.data is properly typed based on detected type
  * }
+ *
+ * // Variables from .env and .env.nprd (process.env still wins)
+ * const local = await loadManifest('./manifest.yaml', {
+ *   dotenv: { environment: 'nprd' },
+ * });
+ * if (local.success) {
+ *   console.log(local.envSources); // { ACCOUNT_ID: { type: 'dotenv', file: '/app/.env.nprd' } }
+ * }
+ *
+ * // Shared blocks via $include, environment-specific values via overlays
+ * const composed = await loadManifest('./manifest.yaml', {
+ *   overlays: ['./manifest.nprd.yaml'],
+ * });
+ * if (composed.success) {
+ *   console.log(`Loaded from ${composed.files.join(', ')}`);
+ * }
  * ```
  */
 export async function loadManifest(
@@ -187,24 +432,121 @@ export async function loadManifest(
 ): Promise<ManifestResult> {
   const {
     expandEnvVars = true,
-    envVars = process.env as Record<string, string>,
+    envVars,
+    dotenv,
+    collectMissingEnvVars = false,
     validate = true,
+    semanticValidation = true,
+    resolveReferences = true,
+    upgrade = true,
+    overlays = [],
+    arrayMerge,
   } = options;
 
+  const files: string[] = [];
+  const sourceMap = new ManifestSourceMap();
+
   try {
     // Determine file format
     const format = getFileFormat(filePath);
 
-    // Read file content
-    let content = readFileSync(filePath, 'utf-8');
+    // Variables for expansion and the source of each expanded one
+    const env = expandEnvVars ? resolveEnvVars(envVars, dotenv) : undefined;
+    const envSources: Record<string, EnvVarSource> = {};
+    const missingEnvVars: ManifestIssue[] = [];
+
+    // Read, expand and parse a single file (used for the manifest, includes and overlays)
+    const parse = (content: string, sourcePath: string): unknown => {
+      const replacements: EnvironmentVariableReplacement[] = [];
+      const expanded = env
+        ? expandEnvironmentVariables(content, env.values, {
+            onExpand: (name) => (envSources[name] = env.sources[name]),
+            onReplace: (replacement) => replacements.push(replacement),
+            ...(collectMissingEnvVars && {
+              onMissing: ({ message, offset }) => {
+                const before = content.slice(0, offset).split('\n');
+                missingEnvVars.push({
+                  path: [],
+                  message,
+                  code: 'missing_env_var',
+                  location: {
+                    file: sourcePath,
+                    line: before.length,
+                    column: before[before.length - 1].length + 1,
+                  },
+                });
+              },
+            }),
+          })
+        : content;
+      return parseFileContent(expanded, getFileFormat(sourcePath), sourcePath, sourceMap, {
+        content,
+        toOriginalOffset: (offset) => toOriginalOffset(offset, replacements),
+      });
+    };
+
+    // Load the manifest and its overlays, resolving $include directives
+    let data: unknown;
+    for (const sourcePath of [filePath, ...overlays]) {
+      const composed = loadComposedDocument(sourcePath, { parse, arrayMerge, sourceMap });
+      files.push(...composed.files.filter((file) => !files.includes(file)));
+      data =
+        data === undefined
+          ? composed.data
+          : deepMergeManifests(data, composed.data, { arrayMerge, sourceMap });
+    }
+    files.push(...(env?.files ?? []));
 
-    // Expand environment variables if requested
-    if (expandEnvVars) {
-      content = expandEnvironmentVariables(content, envVars);
+    if (missingEnvVars.length > 0) {
+      return {
+        success: false,
+        error: 'Missing environment variables',
+        issues: missingEnvVars.map((issue) => ({
+          ...issue,
+          snippet: issue.location && sourceMap.codeFrame(issue.location),
+        })),
+        filePath,
+        format,
+        files,
+      };
     }
 
-    // Parse content based on format
-    const data = parseFileContent(content, format);
+    // Resolve references between manifest values
+    if (resolveReferences) {
+      const resolved = resolveManifestReferences(data, { sourceMap });
+      if (resolved.issues.length > 0) {
+        return {
+          success: false,
+          error: 'Manifest references could not be resolved',
+          issues: locateIssues(resolved.issues, data, sourceMap),
+          filePath,
+          format,
+          files,
+        };
+      }
+      data = resolved.manifest;
+    }
+
+    // Upgrade manifests written for an older schema version
+    let upgradeIssues: ManifestIssue[] = [];
+    if (upgrade) {
+      const upgraded = upgradeManifest(data);
+      upgradeIssues = locateIssues(upgraded.issues, data, sourceMap);
+      if (upgradeIssues.some((issue) => issue.severity !== 'warning')) {
+        return {
+          success: false,
+          error: 'Unsupported manifest schema version',
+          issues: upgradeIssues,
+          filePath,
+          format,
+          files,
+        };
+      }
+      if (upgraded.manifest !== data && typeof upgraded.manifest === 'object') {
+        sourceMap.inherit(upgraded.manifest as object, data);
+      }
+      data = upgraded.manifest;
+    }
 
     // Validate if requested
     if (validate) {
@@ -215,8 +557,31 @@ export async function loadManifest(
           success: false,
           error: 'Manifest validation failed',
           details: validationResult.error,
+          issues: [
+            ...locateIssues(zodErrorToIssues(validationResult.error), data, sourceMap),
+            ...upgradeIssues,
+          ],
+          filePath,
+          format,
+          files,
+        };
+      }
+
+      const semanticIssues = semanticValidation
+        ? locateIssues(validateManifestSemantics(validationResult.data), data, sourceMap)
+        : [];
+      const warnings = [
+        ...upgradeIssues,
+        ...semanticIssues.filter((issue) => issue.severity === 'warning'),
+      ];
+      if (semanticIssues.some((issue) => issue.severity !== 'warning')) {
+        return {
+          success: false,
+          error: 'Manifest semantic validation failed',
+          issues: [...semanticIssues, ...upgradeIssues],
           filePath,
           format,
+          files,
         };
       }
 
@@ -226,6 +591,9 @@ export async function loadManifest(
         type: 'unified',
         filePath,
         format,
+        files,
+        ...(env && { envSources }),
+        ...(warnings.length > 0 && { warnings }),
       };
     }
 
@@ -236,6 +604,9 @@ export async function loadManifest(
       type: 'unified',
       filePath,
       format,
+      files,
+      ...(env && { envSources }),
+      ...(upgradeIssues.length > 0 && { warnings: upgradeIssues }),
     };
   } catch (error) {
     return {
@@ -244,6 +615,7 @@ export async function loadManifest(
       details: error instanceof Error ? error : undefined,
       filePath,
       format: undefined,
+      files,
     };
   }
 }
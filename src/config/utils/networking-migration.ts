@@ -0,0 +1,216 @@
+/**
+ * Simple `networking` migration
+ *
+ * Manifests up to schemaVersion 2 sized their VPC with the simple form
+ * `networking.vpc: { cidr, maxAzs, natGateways, enableFlowLogs, flowLogsRetentionDays }`
+ * and left the subnet layout to the deployment. The current schema only accepts the full
+ * networking configuration, so this module spells that layout out:
+ * - the VPC is named `vpc` and keeps the CIDR (default `10.0.0.0/16`)
+ * - the region is the one shared by the workload environments (every environment except
+ *   `mgmt`, or all of them when there is no other)
+ * - each of `maxAzs` availability zones (default 2) gets a `public-<zone>` and a
+ *   `private-<zone>` subnet, carved from the VPC CIDR in blocks 4 bits longer
+ * - an internet gateway, and one NAT gateway in each of the first `natGateways` public
+ *   subnets (default: one per zone)
+ * - `enableFlowLogs` becomes `flowLogs.enabled`
+ *
+ * `flowLogsRetentionDays` has no equivalent and is reported as a warning.
+ */
+
+import type { ManifestIssue } from './issues';
+
+/**
+ * VPC CIDR used when the simple form does not set one
+ */
+const DEFAULT_VPC_CIDR = '10.0.0.0/16';
+
+/**
+ * Availability zones used when the simple form does not set `maxAzs`
+ */
+const DEFAULT_MAX_AZS = 2;
+
+/**
+ * Bits added to the VPC prefix length for each subnet (a /16 VPC gets /20 subnets)
+ */
+const SUBNET_PREFIX_BITS = 4;
+
+/**
+ * Keys of the simple `networking.vpc` form
+ */
+const SIMPLE_VPC_KEYS = [
+  'cidr',
+  'maxAzs',
+  'natGateways',
+  'enableFlowLogs',
+  'flowLogsRetentionDays',
+];
+
+/**
+ * Whether a `networking` section uses the simple VPC sizing form
+ *
+ * @param networking - Value of the `networking` section
+ * @returns True when the section has no `mode` and its `vpc` only has simple form keys
+ *   (or no `vpc` at all)
+ */
+export function isSimpleNetworking(networking: unknown): networking is Record<string, unknown> {
+  if (typeof networking !== 'object' || networking === null || Array.isArray(networking)) {
+    return false;
+  }
+  if (Object.keys(networking).some((key) => key !== 'vpc')) return false;
+
+  const { vpc } = networking as Record<string, unknown>;
+  if (vpc === undefined) return true;
+  if (typeof vpc !== 'object' || vpc === null || Array.isArray(vpc)) return false;
+  return Object.keys(vpc).every((key) => SIMPLE_VPC_KEYS.includes(key));
+}
+
+/**
+ * Rewrite a simple `networking` section of a parsed manifest into the full form
+ *
+ * Sections that are not in the simple form, or whose values cannot be mapped (a CIDR
+ * that is not IPv4, too small for the subnets, or environments in several regions), are
+ * left unchanged so that schema validation reports them; the latter two with an error.
+ *
+ * @param manifest - Parsed manifest (not modified)
+ * @returns A copy of the manifest with the section rewritten, and the migration report
+ */
+export function migrateSimpleNetworkingData(manifest: Record<string, unknown>): {
+  manifest: Record<string, unknown>;
+  issues: ManifestIssue[];
+} {
+  if (!isSimpleNetworking(manifest.networking)) return { manifest, issues: [] };
+
+  const simple = (manifest.networking.vpc ?? {}) as Record<string, unknown>;
+  const path = ['networking', 'vpc'];
+  const cidr = typeof simple.cidr === 'string' ? simple.cidr : DEFAULT_VPC_CIDR;
+  const maxAzs = typeof simple.maxAzs === 'number' ? simple.maxAzs : DEFAULT_MAX_AZS;
+  const natGateways = typeof simple.natGateways === 'number' ? simple.natGateways : maxAzs;
+
+  const regions = workloadRegions(manifest.environments);
+  if (regions.length !== 1) {
+    return {
+      manifest,
+      issues: [
+        {
+          path: ['networking'],
+          message:
+            regions.length === 0
+              ? 'networking cannot be upgraded: no environment defines a region'
+              : `networking cannot be upgraded: environments use several regions (${regions.join(', ')}) and the VPC configuration has one`,
+          code: 'invalid_networking',
+        },
+      ],
+    };
+  }
+  const [region] = regions;
+
+  const subnetCidrs = splitCidr(cidr, maxAzs * 2);
+  if (subnetCidrs === undefined) return { manifest, issues: [] };
+  if (subnetCidrs.length === 0) {
+    return {
+      manifest,
+      issues: [
+        {
+          path: [...path, 'cidr'],
+          message: `networking cannot be upgraded: ${cidr} is too small for ${maxAzs * 2} subnets of /${prefixLength(cidr) + SUBNET_PREFIX_BITS}`,
+          code: 'invalid_networking',
+        },
+      ],
+    };
+  }
+
+  const zones = Array.from({ length: maxAzs }, (_, index) => String.fromCharCode(97 + index));
+  const subnets = zones.flatMap((zone, index) => [
+    {
+      name: `public-${zone}`,
+      type: 'public',
+      cidr: subnetCidrs[index * 2],
+      availabilityZone: `${region}${zone}`,
+      mapPublicIpOnLaunch: true,
+    },
+    {
+      name: `private-${zone}`,
+      type: 'private',
+      cidr: subnetCidrs[index * 2 + 1],
+      availabilityZone: `${region}${zone}`,
+    },
+  ]);
+
+  const vpc: Record<string, unknown> = {
+    name: 'vpc',
+    cidr,
+    region,
+    subnets,
+    internetGateway: { name: 'igw' },
+    natGateways: zones
+      .slice(0, natGateways)
+      .map((zone) => ({ name: `nat-${zone}`, subnetName: `public-${zone}` })),
+  };
+  if (typeof simple.enableFlowLogs === 'boolean') {
+    vpc.flowLogs = { enabled: simple.enableFlowLogs };
+  }
+
+  const issues: ManifestIssue[] =
+    simple.flowLogsRetentionDays === undefined
+      ? []
+      : [
+          {
+            path: [...path, 'flowLogsRetentionDays'],
+            message:
+              'flowLogsRetentionDays has no equivalent in the networking configuration and was dropped: set the retention on the flow log group instead',
+            code: 'dropped_setting',
+            severity: 'warning',
+          },
+        ];
+
+  return { manifest: { ...manifest, networking: { mode: 'create', vpc } }, issues };
+}
+
+/**
+ * Distinct regions of the environments networking deploys to
+ */
+function workloadRegions(environments: unknown): string[] {
+  if (typeof environments !== 'object' || environments === null) return [];
+
+  const entries = Object.entries(environments as Record<string, { region?: unknown }>);
+  const workloads = entries.filter(([name]) => name !== 'mgmt');
+  const regions = (workloads.length > 0 ? workloads : entries)
+    .map(([, environment]) => environment?.region)
+    .filter((region): region is string => typeof region === 'string');
+  return [...new Set(regions)];
+}
+
+/**
+ * Prefix length of an IPv4 CIDR block
+ */
+function prefixLength(cidr: string): number {
+  return Number(cidr.split('/')[1]);
+}
+
+/**
+ * Split an IPv4 CIDR block into the first `count` blocks 4 bits longer
+ *
+ * @returns The blocks, an empty array when they do not fit, or undefined when the
+ *   input is not an IPv4 CIDR block
+ */
+function splitCidr(cidr: string, count: number): string[] | undefined {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(cidr);
+  if (!match) return undefined;
+
+  const octets = match.slice(1, 5).map(Number);
+  const prefix = Number(match[5]);
+  if (octets.some((octet) => octet > 255) || prefix > 32) return undefined;
+
+  const subnetPrefix = prefix + SUBNET_PREFIX_BITS;
+  if (subnetPrefix > 28 || count > 2 ** SUBNET_PREFIX_BITS) return [];
+
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  const base = (octets.reduce((address, octet) => address * 256 + octet, 0) & mask) >>> 0;
+  const size = 2 ** (32 - subnetPrefix);
+
+  return Array.from({ length: count }, (_, index) => {
+    const address = base + index * size;
+    const parts = [24, 16, 8, 0].map((shift) => Math.floor(address / 2 ** shift) % 256);
+    return `${parts.join('.')}/${subnetPrefix}`;
+  });
+}
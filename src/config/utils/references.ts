@@ -0,0 +1,229 @@
+/**
+ * Manifest-internal references
+ *
+ * Values that are repeated across a manifest (account IDs, domain names, ...) can be
+ * written once and referenced elsewhere by path:
+ *
+ * ```yaml
+ * environments:
+ *   prod:
+ *     accountId: '123456789012'
+ * staticHosting:
+ *   managementAccountId: ${environments.prod.accountId}
+ * githubOidc:
+ *   subject: repo:acme/${naming.project}:ref:refs/heads/main
+ * ```
+ *
+ * A placeholder is a reference when it contains a `.` or `[index]` path separator
+ * (environment variable names never do). References are resolved after the manifest has
+ * been parsed and composed, so they see includes and overlays:
+ * - a value that consists of a single reference takes the referenced value as is
+ *   (numbers, booleans, mappings and lists included)
+ * - references embedded in text must point at strings, numbers or booleans
+ * - referenced values may contain references themselves; cycles are reported
+ * - `$${naming.project}` is an escape for the literal text `${naming.project}`
+ */
+
+import type { ManifestIssue } from './issues';
+import type { ManifestSourceMap } from './source-map';
+
+/**
+ * Options for resolving manifest references
+ */
+export interface ResolveManifestReferencesOptions {
+  /** Source map to carry locations over to copied mappings and lists */
+  sourceMap?: ManifestSourceMap;
+}
+
+/**
+ * Result of resolving manifest references
+ */
+export interface ResolveManifestReferencesResult {
+  /** The manifest with references replaced (the input itself when it has none) */
+  manifest: unknown;
+  /** Unresolved references, reference cycles and references that cannot be embedded */
+  issues: ManifestIssue[];
+}
+
+type Path = (string | number)[];
+
+type LookupResult =
+  { found: true; value: unknown } | { found: false; code: string; message: string };
+
+const PLACEHOLDER_PATTERN = /(\$?)\$\{([^}]+)\}/g;
+
+const REFERENCE_PATTERN = /^[\w-]+(?:\.[\w-]+|\[\d+\])+$/;
+
+/**
+ * Whether a `${...}` expression is a manifest reference rather than an environment variable
+ *
+ * @param expression - Text between `${` and `}`
+ * @returns True for paths such as `naming.project` or `saasEdge[0].domain`
+ */
+export function isManifestReference(expression: string): boolean {
+  return REFERENCE_PATTERN.test(expression);
+}
+
+/**
+ * Split a reference into path segments (`saasEdge[0].domain` → `['saasEdge', 0, 'domain']`)
+ */
+function parseReference(expression: string): Path {
+  return expression
+    .split(/\.|(?=\[)/)
+    .map((segment) => (segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment));
+}
+
+/**
+ * Format a path the way references are written
+ */
+function formatReference(path: Path): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`,
+    )
+    .join('');
+}
+
+/**
+ * Resolve `${path.to.value}` references between manifest values
+ *
+ * The input is not modified: mappings and lists that contain references are copied.
+ *
+ * @param manifest - Parsed (and composed) manifest
+ * @param options - Resolution options
+ * @returns The resolved manifest and any reference errors, located at the value that
+ * contains the reference
+ *
+ * @example
+ * ```typescript
+ * const { manifest, issues } = resolveManifestReferences({
+ *   naming: { company: 'Acme', project: 'shop' },
+ *   stackPrefix: '${naming.company}-${naming.project}',
+ * });
+ * // manifest.stackPrefix === 'Acme-shop'
+ * ```
+ */
+export function resolveManifestReferences(
+  manifest: unknown,
+  options: ResolveManifestReferencesOptions = {},
+): ResolveManifestReferencesResult {
+  const issues: ManifestIssue[] = [];
+  const resolved = new Map<string, unknown>();
+  const inProgress: string[] = [];
+
+  /**
+   * Resolve a value and everything below it
+   */
+  const resolveValue = (value: unknown, path: Path): unknown => {
+    const key = formatReference(path);
+    if (resolved.has(key)) return resolved.get(key);
+    if (typeof value !== 'string' && (typeof value !== 'object' || value === null)) return value;
+
+    inProgress.push(key);
+    let result: unknown = value;
+    if (typeof value === 'string') {
+      result = resolveString(value, path);
+    } else {
+      const entries = Object.entries(value);
+      const resolvedEntries = entries.map(([entryKey, entry]) => {
+        const segment = Array.isArray(value) ? Number(entryKey) : entryKey;
+        return [entryKey, resolveValue(entry, [...path, segment])] as const;
+      });
+      if (resolvedEntries.some(([, entry], index) => entry !== entries[index][1])) {
+        result = Array.isArray(value)
+          ? resolvedEntries.map(([, entry]) => entry)
+          : Object.fromEntries(resolvedEntries);
+        options.sourceMap?.inherit(result as object, value);
+      }
+    }
+    inProgress.pop();
+
+    resolved.set(key, result);
+    return result;
+  };
+
+  /**
+   * Look up the value a reference points at, resolving references along the way
+   */
+  const lookup = (reference: Path, from: Path): LookupResult => {
+    const cycle = (path: Path): LookupResult | undefined => {
+      const key = formatReference(path);
+      if (!inProgress.includes(key)) return undefined;
+      const chain = [...inProgress.slice(inProgress.indexOf(key)), key];
+      return {
+        found: false,
+        code: 'reference_cycle',
+        message: `Reference cycle: ${chain.join(' -> ')}`,
+      };
+    };
+
+    let node: unknown = manifest;
+    const path: Path = [];
+    for (const segment of reference) {
+      if (typeof node === 'string') {
+        const failure = cycle(path);
+        if (failure) return failure;
+        node = resolveValue(node, path);
+      }
+
+      const index = Array.isArray(node) && /^\d+$/.test(String(segment)) ? Number(segment) : -1;
+      const exists = Array.isArray(node)
+        ? index >= 0 && index < node.length
+        : typeof node === 'object' &&
+          node !== null &&
+          Object.prototype.hasOwnProperty.call(node, segment);
+      if (!exists) {
+        const parent = path.length === 0 ? 'the manifest' : formatReference(path);
+        return {
+          found: false,
+          code: 'unresolved_reference',
+          message: `Unresolved reference \${${formatReference(reference)}} in ${formatReference(from)}: ${parent} has no '${segment}'`,
+        };
+      }
+
+      const key = Array.isArray(node) ? index : String(segment);
+      path.push(key);
+      node = (node as Record<string | number, unknown>)[key];
+    }
+
+    return cycle(path) ?? { found: true, value: resolveValue(node, path) };
+  };
+
+  /**
+   * Replace the references in a string value
+   */
+  const resolveString = (value: string, path: Path): unknown => {
+    const whole = /^\$\{([^}]+)\}$/.exec(value);
+    if (whole && isManifestReference(whole[1])) {
+      const target = lookup(parseReference(whole[1]), path);
+      if (target.found) return target.value;
+      issues.push({ path, message: target.message, code: target.code });
+      return value;
+    }
+
+    return value.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder: string, escape: string, expression: string) => {
+        if (!isManifestReference(expression)) return placeholder;
+        if (escape) return placeholder.slice(1);
+
+        const target = lookup(parseReference(expression), path);
+        if (!target.found) {
+          issues.push({ path, message: target.message, code: target.code });
+          return placeholder;
+        }
+        if (!['string', 'number', 'boolean'].includes(typeof target.value)) {
+          issues.push({
+            path,
+            message: `Reference \${${expression}} points at ${target.value === null ? 'null' : Array.isArray(target.value) ? 'a list' : 'a mapping'} and cannot be embedded in text`,
+            code: 'invalid_reference',
+          });
+          return placeholder;
+        }
+        return String(target.value);
+      },
+    );
+  };
+
+  return { manifest: resolveValue(manifest, []), issues };
+}
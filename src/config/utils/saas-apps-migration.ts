@@ -0,0 +1,634 @@
+/**
+ * Legacy `saasApps` migration
+ *
+ * `saasApps` is deprecated in favor of `saasEdge` (CloudFront distributions in the
+ * management account) and `saasWorkload` (services in the workload accounts). This
+ * module rewrites a manifest's `saasApps` entries into equivalent entries of both
+ * sections. It edits the YAML document rather than re-serializing parsed data, and only
+ * the sections it changes are written again: every other line is kept byte for byte.
+ *
+ * Mapping of each legacy entry:
+ * - `saasEdge`: a `marketing` distribution, plus `webapp` unless `hasWebapp: false`
+ *   and `api` when `hasApi: true` (none of either for `marketingOnly` brands)
+ * - `saasWorkload`: `marketingS3: true`, plus `webapp: true` unless `hasWebapp: false`
+ *   and the ECS API service `services: [{ type: api }]` when `hasApi: true`
+ *
+ * Behavior that saasApps derived implicitly and the new sections do not (databases,
+ * secrets, origin zones) is reported as warnings rather than guessed.
+ */
+
+import { Document, isMap, isScalar, isSeq, parseDocument, visit, YAMLMap } from 'yaml';
+import type { Pair, ToStringOptions, YAMLSeq } from 'yaml';
+import type { z } from 'zod';
+import { SaasAppSchema } from '../schemas/applications/unified';
+import type { SaasApp } from '../schemas/applications/unified';
+import type { ManifestIssue } from './issues';
+import { locateIssues } from './issues';
+import { ManifestSourceMap } from './source-map';
+
+/**
+ * Result of migrating the `saasApps` section of a manifest
+ */
+export interface SaasAppsMigrationResult {
+  /** Migrated YAML content (identical to the input when nothing was migrated) */
+  content: string;
+  /** Whether the content was changed */
+  changed: boolean;
+  /** Names of the saasApps entries that were migrated */
+  migrated: string[];
+  /**
+   * Everything that could not be mapped one-to-one, with paths into the original
+   * `saasApps` section (`severity: 'error'` for entries that were left in place)
+   */
+  issues: ManifestIssue[];
+}
+
+/**
+ * Legacy saasApps keys and the saasWorkload keys that replace them, used to carry
+ * comments over to the migrated entry
+ */
+const KEY_REPLACEMENTS: Record<string, string> = {
+  name: 'name',
+  domain: 'domain',
+  marketingOnly: 'marketingS3',
+  hasWebapp: 'webapp',
+  hasApi: 'services',
+};
+
+/**
+ * Entries produced for one legacy saasApps entry
+ */
+interface ConvertedApp {
+  edge: Record<string, unknown>;
+  workload: Record<string, unknown>;
+  issues: ManifestIssue[];
+}
+
+/**
+ * Original text of a top-level pair
+ */
+interface PairText {
+  /** From the start of the key's line to the end of the value's last line */
+  text: string;
+  /** Comments and blank lines up to the next top-level key */
+  gap: string;
+}
+
+/**
+ * Top-level sections the migration changed, and how
+ */
+interface SectionEdits {
+  /** Existing sections whose value is written again */
+  replaced: Set<Pair>;
+  /** Existing block sequences and the items appended to them */
+  appended: Map<Pair, YAMLMap[]>;
+}
+
+/**
+ * Rewrite the `saasApps` section of a YAML manifest into `saasEdge` and `saasWorkload`
+ *
+ * New entries are appended to existing `saasEdge`/`saasWorkload` sections, or the
+ * sections are created where `saasApps` was. Entries whose domain (saasEdge) or
+ * name (saasWorkload) already exists are not added twice. `saasApps` is removed once
+ * every entry has been migrated; invalid entries are left in place. New sections follow
+ * the sequence indentation of the manifest (`- item` flush with or indented under its key).
+ *
+ * @param content - YAML manifest content
+ * @param filePath - Path of the manifest, used to attach source locations to issues
+ * @returns The migrated content and a report of everything not mapped one-to-one
+ * @throws Error if the content is not valid YAML
+ *
+ * @example
+ * ```typescript
+ * const result = migrateSaasApps(readFileSync('src/manifest.yaml', 'utf-8'), 'src/manifest.yaml');
+ * writeFileSync('src/manifest.yaml', result.content);
+ * console.log(formatManifestIssues(result.issues));
+ * ```
+ */
+export function migrateSaasApps(content: string, filePath?: string): SaasAppsMigrationResult {
+  const document = parseDocument(content);
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${document.errors[0].message.split('\n')[0]}`);
+  }
+
+  const unchanged: SaasAppsMigrationResult = { content, changed: false, migrated: [], issues: [] };
+  const root: unknown = document.contents;
+  if (!isMap(root)) return unchanged;
+
+  const appsIndex = root.items.findIndex((pair) => keyOf(pair) === 'saasApps');
+  const appsPair = root.items[appsIndex];
+  if (!appsPair || !isSeq(appsPair.value)) return unchanged;
+  const apps = appsPair.value;
+  const layout = mapTopLevelPairs(content, root);
+  const indentSeq = detectIndentSeq(content, document);
+  const edits: SectionEdits = { replaced: new Set(), appended: new Map() };
+
+  const data = (document.toJS() ?? {}) as Record<string, unknown>;
+  const existingDomains = new Set(collect(data.saasEdge, 'domain'));
+  const existingNames = new Set(collect(data.saasWorkload, 'name'));
+  const originZoneBrands = collect((data.originZones as Record<string, unknown>)?.brands);
+
+  const edges: YAMLMap[] = [];
+  const workloads: YAMLMap[] = [];
+  const remaining: unknown[] = [];
+  const migrated: string[] = [];
+  const issues: ManifestIssue[] = [];
+
+  apps.items.forEach((item, index) => {
+    const path = ['saasApps', index];
+    const parsed = SaasAppSchema.safeParse(isMap(item) ? item.toJS(document) : item);
+    if (!parsed.success || !isMap(item)) {
+      issues.push({
+        path,
+        message: `Entry is not a valid saasApps entry and was left in place: ${describeParseError(parsed.error)}`,
+        code: 'invalid_saas_app',
+      });
+      remaining.push(item);
+      return;
+    }
+
+    const app = parsed.data;
+    const converted = convertSaasApp(app, path, originZoneBrands);
+    issues.push(...converted.issues);
+    migrated.push(app.name);
+
+    if (existingDomains.has(app.domain)) {
+      issues.push(duplicateIssue(path, `saasEdge already has an entry for domain '${app.domain}'`));
+    } else {
+      existingDomains.add(app.domain);
+      edges.push(document.createNode(converted.edge) as YAMLMap);
+    }
+
+    if (existingNames.has(app.name)) {
+      issues.push(duplicateIssue(path, `saasWorkload already has an entry named '${app.name}'`));
+    } else {
+      existingNames.add(app.name);
+      const workload = document.createNode(converted.workload) as YAMLMap;
+      // A comment above the first entry belongs to the sequence itself
+      copyComments(item, workload, index === 0 ? apps.commentBefore : item.commentBefore);
+      workloads.push(workload);
+    }
+  });
+
+  if (migrated.length === 0) {
+    return { ...unchanged, issues: locate(issues, content, filePath) };
+  }
+
+  // Sections that do not exist yet take the place of saasApps, in this order
+  const inserted = [
+    appendToSection(document, root, 'saasEdge', edges, edits),
+    appendToSection(document, root, 'saasWorkload', workloads, edits),
+  ].filter((pair): pair is Pair => pair !== undefined);
+
+  if (remaining.length > 0) {
+    // The sequence comment moves with the entry that is now first
+    const [first] = remaining;
+    if (first !== apps.items[0] && isMap(first)) {
+      apps.commentBefore = first.commentBefore;
+      first.commentBefore = undefined;
+    }
+    apps.items = remaining;
+    edits.replaced.add(appsPair);
+    root.items.splice(root.items.indexOf(appsPair), 0, ...inserted);
+  } else {
+    const position = root.items.indexOf(appsPair);
+    root.items.splice(position, 1, ...inserted);
+  }
+
+  const options: ToStringOptions = { lineWidth: 0, indentSeq };
+  let migratedContent: string;
+  if (layout) {
+    // Comments and blank lines after saasApps stay after the sections that replace it
+    const gaps = new Map<Pair, string>();
+    if (remaining.length === 0 && inserted.length > 0) {
+      gaps.set(inserted[inserted.length - 1], layout.pairs.get(appsPair)?.gap ?? '');
+    }
+    migratedContent = renderEditedDocument(root, layout, edits, gaps, options);
+  } else {
+    if (inserted[0] && isScalar(inserted[0].key) && isScalar(appsPair.key)) {
+      inserted[0].key.commentBefore = appsPair.key.commentBefore;
+      inserted[0].key.spaceBefore = appsPair.key.spaceBefore;
+    }
+    migratedContent = document.toString(options);
+  }
+
+  return {
+    content: migratedContent,
+    changed: true,
+    migrated,
+    issues: locate(issues, content, filePath),
+  };
+}
+
+/**
+ * Move the `saasApps` entries of a parsed manifest into `saasEdge` and `saasWorkload`
+ *
+ * In-memory counterpart of {@link migrateSaasApps} with the same mapping and report.
+ * Invalid entries stay in `saasApps` without being reported, so that schema validation
+ * reports them with their source location.
+ *
+ * @param manifest - Parsed manifest (not modified)
+ * @returns A copy of the manifest with the entries moved, and the migration report
+ */
+export function migrateSaasAppsData(manifest: Record<string, unknown>): {
+  manifest: Record<string, unknown>;
+  migrated: string[];
+  issues: ManifestIssue[];
+} {
+  if (!Array.isArray(manifest.saasApps)) return { manifest, migrated: [], issues: [] };
+
+  const edges = Array.isArray(manifest.saasEdge) ? [...manifest.saasEdge] : [];
+  const workloads = Array.isArray(manifest.saasWorkload) ? [...manifest.saasWorkload] : [];
+  const existingDomains = new Set(collect(edges, 'domain'));
+  const existingNames = new Set(collect(workloads, 'name'));
+  const originZoneBrands = collect((manifest.originZones as Record<string, unknown>)?.brands);
+
+  const remaining: unknown[] = [];
+  const migrated: string[] = [];
+  const issues: ManifestIssue[] = [];
+
+  manifest.saasApps.forEach((item, index) => {
+    const parsed = SaasAppSchema.safeParse(item);
+    if (!parsed.success) {
+      remaining.push(item);
+      return;
+    }
+
+    const app = parsed.data;
+    const path = ['saasApps', index];
+    const converted = convertSaasApp(app, path, originZoneBrands);
+    issues.push(...converted.issues);
+    migrated.push(app.name);
+
+    if (existingDomains.has(app.domain)) {
+      issues.push(duplicateIssue(path, `saasEdge already has an entry for domain '${app.domain}'`));
+    } else {
+      existingDomains.add(app.domain);
+      edges.push(converted.edge);
+    }
+    if (existingNames.has(app.name)) {
+      issues.push(duplicateIssue(path, `saasWorkload already has an entry named '${app.name}'`));
+    } else {
+      existingNames.add(app.name);
+      workloads.push(converted.workload);
+    }
+  });
+
+  if (migrated.length === 0) return { manifest, migrated, issues };
+
+  // Keep the key order: new sections take the place of saasApps
+  const upgraded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(manifest)) {
+    if (key === 'saasApps') {
+      upgraded.saasEdge = edges;
+      upgraded.saasWorkload = workloads;
+      if (remaining.length > 0) upgraded.saasApps = remaining;
+    } else if (key === 'saasEdge' || key === 'saasWorkload') {
+      upgraded[key] = key === 'saasEdge' ? edges : workloads;
+    } else {
+      upgraded[key] = value;
+    }
+  }
+
+  return { manifest: upgraded, migrated, issues };
+}
+
+/**
+ * Map one legacy entry to its saasEdge and saasWorkload entries
+ */
+function convertSaasApp(
+  app: SaasApp,
+  path: (string | number)[],
+  originZoneBrands: string[],
+): ConvertedApp {
+  const issues: ManifestIssue[] = [];
+  const warn = (key: string | undefined, code: string, message: string) =>
+    issues.push({
+      path: key ? [...path, key] : path,
+      message: `${app.name}: ${message}`,
+      code,
+      severity: 'warning',
+    });
+
+  if (app.marketingOnly) {
+    for (const flag of ['hasApi', 'hasWebapp'] as const) {
+      if (app[flag]) {
+        warn(flag, 'ignored_flag', `${flag} is ignored because marketingOnly is true`);
+      }
+    }
+    if (!originZoneBrands.includes(app.name) && !originZoneBrands.includes(app.domain)) {
+      warn(
+        undefined,
+        'implicit_origin_zone',
+        'saasApps created an origin zone for every brand; add the brand to originZones.brands if it is still needed',
+      );
+    }
+    return {
+      edge: { domain: app.domain, distributions: [{ type: 'marketing' }] },
+      workload: { name: app.name, domain: app.domain, marketingS3: true },
+      issues,
+    };
+  }
+
+  const webapp = app.hasWebapp ?? true;
+  const api = app.hasApi ?? false;
+
+  if (api) {
+    warn(
+      'hasApi',
+      'ecs_api',
+      'hasApi becomes the deprecated services: [{ type: api }] (ECS service); use lambdaApi: true to run the API on Lambda instead',
+    );
+  }
+  if (!webapp) {
+    warn(
+      'hasWebapp',
+      'implicit_database',
+      'saasApps created a database for every non-marketing brand; saasWorkload only creates one with webapp or lambdaApi',
+    );
+  }
+  warn(
+    undefined,
+    'implicit_secrets',
+    'saasApps created secrets for every non-marketing brand; list the ones still needed under secrets (e.g. auth-secret)',
+  );
+  if (!originZoneBrands.includes(app.name) && !originZoneBrands.includes(app.domain)) {
+    warn(
+      undefined,
+      'implicit_origin_zone',
+      'saasApps created an origin zone for every brand; add the brand to originZones.brands if it is still needed',
+    );
+  }
+
+  return {
+    edge: {
+      domain: app.domain,
+      distributions: [
+        { type: 'marketing' },
+        ...(webapp ? [{ type: 'webapp' }] : []),
+        ...(api ? [{ type: 'api' }] : []),
+      ],
+    },
+    workload: {
+      name: app.name,
+      domain: app.domain,
+      ...(webapp && { webapp: true }),
+      marketingS3: true,
+      ...(api && { services: [{ type: 'api' }] }),
+    },
+    issues,
+  };
+}
+
+/**
+ * Append items to a top-level sequence, creating the section if needed
+ *
+ * @returns The new section's pair when it was created (not yet placed in the root)
+ */
+function appendToSection(
+  document: Document,
+  root: YAMLMap,
+  key: string,
+  items: YAMLMap[],
+  edits: SectionEdits,
+): Pair | undefined {
+  if (items.length === 0) return undefined;
+
+  const existing = root.items.find((pair) => keyOf(pair) === key);
+  if (existing && isSeq(existing.value)) {
+    const sequence = existing.value as YAMLSeq;
+    sequence.items.push(...items);
+    if (sequence.flow) {
+      // An empty placeholder (`saasEdge: []`) becomes a block sequence
+      if (sequence.items.length === items.length) sequence.flow = false;
+      edits.replaced.add(existing);
+    } else {
+      edits.appended.set(existing, items);
+    }
+    return undefined;
+  }
+
+  const pair = document.createPair(key, items);
+  if (existing) {
+    // A null or scalar placeholder (e.g. `saasEdge:`) is replaced in place
+    existing.value = pair.value;
+    edits.replaced.add(existing);
+    return undefined;
+  }
+  return pair;
+}
+
+/**
+ * Split a block mapping into the original text of each top-level pair
+ *
+ * @returns The text before the first key and the text of each pair, or undefined when
+ * the root is not a block mapping with locatable keys
+ */
+function mapTopLevelPairs(
+  content: string,
+  root: YAMLMap,
+): { prefix: string; pairs: Map<Pair, PairText> } | undefined {
+  if (root.flow) return undefined;
+
+  const starts: number[] = [];
+  for (const pair of root.items) {
+    if (!isScalar(pair.key) || !pair.key.range) return undefined;
+    starts.push(lineStart(content, pair.key.range[0]));
+  }
+
+  const pairs = new Map<Pair, PairText>();
+  root.items.forEach((pair, index) => {
+    const next = starts[index + 1] ?? content.length;
+    const valueRange = (pair.value as { range?: [number, number, number] } | null)?.range;
+    const valueEnd = valueRange?.[1] ?? (pair.key as { range: [number, number] }).range[1];
+    const end = Math.min(lineEnd(content, valueEnd), next);
+    pairs.set(pair, { text: content.slice(starts[index], end), gap: content.slice(end, next) });
+  });
+
+  return { prefix: content.slice(0, starts[0] ?? content.length), pairs };
+}
+
+/**
+ * Write the document from the original text, serializing only the changed sections
+ */
+function renderEditedDocument(
+  root: YAMLMap,
+  layout: { prefix: string; pairs: Map<Pair, PairText> },
+  edits: SectionEdits,
+  gaps: Map<Pair, string>,
+  options: ToStringOptions,
+): string {
+  let output = layout.prefix;
+
+  for (const pair of root.items) {
+    const original = layout.pairs.get(pair);
+    if (!original) {
+      output += renderPair(pair, options) + (gaps.get(pair) ?? '');
+    } else if (edits.replaced.has(pair)) {
+      output += renderPair(pair, options) + original.gap;
+    } else {
+      const items = edits.appended.get(pair);
+      const text = items && !original.text.endsWith('\n') ? `${original.text}\n` : original.text;
+      output +=
+        text + (items ? renderSequenceItems(pair, items, text, options) : '') + original.gap;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Serialize a single top-level pair
+ *
+ * Comments and blank lines before the key are part of the preceding text, so they are
+ * not written again.
+ */
+function renderPair(pair: Pair, options: ToStringOptions): string {
+  if (isScalar(pair.key)) {
+    pair.key.commentBefore = undefined;
+    pair.key.spaceBefore = false;
+  }
+  const map = new YAMLMap();
+  map.items.push(pair);
+  return new Document(map).toString(options);
+}
+
+/**
+ * Serialize items appended to an existing block sequence, at the sequence's indentation
+ */
+function renderSequenceItems(
+  pair: Pair,
+  items: YAMLMap[],
+  text: string,
+  options: ToStringOptions,
+): string {
+  const sequence = new Document().createPair(pair.key, items);
+  const [, ...lines] = renderPair(sequence, options).split('\n');
+  const [firstItemLine] = text.split('\n').filter((line) => /^\s*- /.test(line));
+  const shift = indentation(firstItemLine ?? '') - indentation(lines[0] ?? '');
+
+  return lines
+    .map((line) =>
+      line === '' ? line : shift >= 0 ? ' '.repeat(shift) + line : line.slice(-shift),
+    )
+    .join('\n');
+}
+
+/**
+ * Whether the manifest indents `- item` under its key (the `yaml` default), judged by
+ * its first block sequence
+ */
+function detectIndentSeq(content: string, document: Document): boolean {
+  let indentSeq = true;
+  visit(document, {
+    Pair(_, pair) {
+      const value = pair.value;
+      if (!isSeq(value) || value.flow || !value.range || !isScalar(pair.key) || !pair.key.range) {
+        return undefined;
+      }
+      const column = (offset: number) => offset - lineStart(content, offset);
+      indentSeq = column(value.range[0]) > column(pair.key.range[0]);
+      return visit.BREAK;
+    },
+  });
+  return indentSeq;
+}
+
+/**
+ * Offset of the start of the line containing an offset
+ */
+function lineStart(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Offset after the end (and newline) of the line containing the character before an offset
+ */
+function lineEnd(content: string, offset: number): number {
+  if (offset > 0 && content[offset - 1] === '\n') return offset;
+  const newline = content.indexOf('\n', offset);
+  return newline === -1 ? content.length : newline + 1;
+}
+
+/**
+ * Number of leading spaces of a line
+ */
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Carry comments of a legacy entry and its keys over to the migrated entry
+ */
+function copyComments(
+  source: YAMLMap,
+  target: YAMLMap,
+  commentBefore: string | null | undefined,
+): void {
+  target.commentBefore = commentBefore;
+  target.comment = source.comment;
+
+  for (const pair of source.items) {
+    const targetKey = KEY_REPLACEMENTS[keyOf(pair) ?? ''];
+    const targetPair = target.items.find((candidate) => keyOf(candidate) === targetKey);
+    if (!targetPair || !isScalar(pair.key) || !isScalar(targetPair.key)) continue;
+
+    targetPair.key.commentBefore = pair.key.commentBefore;
+    const comment = isScalar(pair.value) ? pair.value.comment : undefined;
+    if (!comment) continue;
+    if (isScalar(targetPair.value)) {
+      targetPair.value.comment = comment;
+    } else {
+      targetPair.key.commentBefore = [targetPair.key.commentBefore, comment]
+        .filter(Boolean)
+        .join('\n');
+    }
+  }
+}
+
+/**
+ * Attach source locations to issues when the file path is known
+ */
+function locate(issues: ManifestIssue[], content: string, filePath?: string): ManifestIssue[] {
+  if (!filePath || issues.length === 0) return issues;
+  const sourceMap = new ManifestSourceMap();
+  return locateIssues(issues, sourceMap.parseYaml(content, filePath), sourceMap);
+}
+
+/**
+ * Issue for an entry that already exists in the target section
+ */
+function duplicateIssue(path: (string | number)[], message: string): ManifestIssue {
+  return {
+    path,
+    message: `${message}; it was kept as is`,
+    code: 'duplicate_entry',
+    severity: 'warning',
+  };
+}
+
+/**
+ * First problem of an entry that failed schema validation
+ */
+function describeParseError(error: z.ZodError | undefined): string {
+  const issue = error?.issues[0];
+  if (!issue) return 'expected a mapping';
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+/**
+ * String key of a mapping pair
+ */
+function keyOf(pair: Pair): string | undefined {
+  return isScalar(pair.key) ? String(pair.key.value) : undefined;
+}
+
+/**
+ * String values of a list, or of one field of a list of mappings
+ */
+function collect(value: unknown, field?: string): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item) => (field ? (item as Record<string, unknown>)?.[field] : item))
+    .filter((item): item is string => typeof item === 'string');
+}
@@ -0,0 +1,224 @@
+/**
+ * Source locations for parsed manifest documents
+ *
+ * Values are parsed with `js-yaml`, like every other manifest loader of this package.
+ * The content is also parsed into a `yaml` AST, which is only used for positions, so
+ * that every mapping, sequence and value can be traced back to the file, line and
+ * column it came from. Positions refer to the file as written: offsets in content
+ * changed by `${VAR}` expansion are mapped back to the raw file. Locations are
+ * attached to the parsed objects themselves (by identity), which means they survive
+ * `$include` resolution and overlay merging as long as the merge reports which
+ * source object each value was taken from.
+ *
+ * Locations are looked up with the same paths that Zod reports
+ * (e.g. `['saasWorkload', 2, 'scheduledJobs', 0, 'schedule']`).
+ */
+
+import { load, YAMLException } from 'js-yaml';
+import { isAlias, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Node as YamlNode } from 'yaml';
+
+/**
+ * A position inside a manifest file (1-based line and column)
+ */
+export interface SourceLocation {
+  /** Absolute path of the file */
+  file: string;
+  /** Line number (1-based) */
+  line: number;
+  /** Column number (1-based) */
+  column: number;
+}
+
+/**
+ * Raw file content that parsed content was derived from (e.g. by `${VAR}` expansion)
+ */
+export interface OriginalSource {
+  /** Content of the file as written, used for positions and code frames */
+  content: string;
+  /** Map an offset in the parsed content to the corresponding offset in `content` */
+  toOriginalOffset: (offset: number) => number;
+}
+
+/**
+ * Location of a mapping or sequence and of each of its entries
+ */
+interface NodeLocation {
+  /** Where the mapping or sequence starts */
+  location: SourceLocation;
+  /** Where each entry starts, keyed by property name or array index */
+  entries: Map<string, SourceLocation>;
+}
+
+/**
+ * Tracks where every parsed manifest value came from
+ */
+export class ManifestSourceMap {
+  private readonly nodes = new WeakMap<object, NodeLocation>();
+  private readonly sources = new Map<string, string[]>();
+
+  /**
+   * Parse YAML content and record the location of every mapping, sequence and entry
+   *
+   * @param content - YAML content to parse (after any environment expansion)
+   * @param file - Absolute path of the file the content came from
+   * @param original - Raw file content and the offset mapping from `content` to it
+   *   (defaults to `content` itself)
+   * @returns The parsed document as plain JavaScript values
+   * @throws Error with file, line and column if the YAML cannot be parsed
+   */
+  parseYaml(content: string, file: string, original?: OriginalSource): unknown {
+    const source = original ?? { content, toOriginalOffset: (offset: number) => offset };
+    const lineStarts = [0];
+    for (let index = 0; index < source.content.length; index++) {
+      if (source.content[index] === '\n') lineStarts.push(index + 1);
+    }
+    const toLocation = (offset: number): SourceLocation => {
+      const position = source.toOriginalOffset(offset);
+      let line = 0;
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= position) line++;
+      return { file, line: line + 1, column: position - lineStarts[line] + 1 };
+    };
+
+    let value: unknown;
+    try {
+      value = load(content);
+    } catch (error) {
+      if (!(error instanceof YAMLException)) throw error;
+      const location = error.mark && toLocation(error.mark.position);
+      const where = location ? `${file}:${location.line}:${location.column}` : file;
+      throw new Error(`Invalid YAML at ${where}: ${error.reason}`);
+    }
+
+    this.sources.set(file, source.content.replace(/\r?\n$/, '').split(/\r?\n/));
+
+    // The AST only provides positions; values come from js-yaml above
+    const document = parseDocument(content, { merge: true });
+    if (document.contents && document.errors.length === 0) {
+      this.record(document.contents, value, toLocation);
+    }
+    return value;
+  }
+
+  /**
+   * Walk the AST alongside the converted value and remember node locations
+   */
+  private record(
+    node: YamlNode,
+    value: unknown,
+    toLocation: (offset: number) => SourceLocation,
+  ): void {
+    if (isAlias(node) || typeof value !== 'object' || value === null) return;
+    if (this.nodes.has(value)) return;
+
+    const entries = new Map<string, SourceLocation>();
+    this.nodes.set(value, { location: toLocation(node.range?.[0] ?? 0), entries });
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (!isScalar(pair.key) || pair.key.value === '<<') continue;
+        const key = String(pair.key.value);
+        const child = (value as Record<string, unknown>)[key];
+        const target = isScalar(pair.value) ? pair.value : pair.key;
+        entries.set(key, toLocation(target.range?.[0] ?? pair.key.range?.[0] ?? 0));
+        if (pair.value) this.record(pair.value as YamlNode, child, toLocation);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const itemNode = item as YamlNode;
+        entries.set(String(index), toLocation(itemNode.range?.[0] ?? 0));
+        this.record(itemNode, (value as unknown[])[index], toLocation);
+      });
+    }
+  }
+
+  /**
+   * Give a derived container the same location as the container it was built from
+   *
+   * @param target - New object or array (e.g. a copy with directives removed)
+   * @param source - Object or array the target was derived from
+   */
+  inherit(target: object, source: unknown): void {
+    const location = typeof source === 'object' && source !== null && this.nodes.get(source);
+    if (location && !this.nodes.has(target)) {
+      this.nodes.set(target, { location: location.location, entries: new Map(location.entries) });
+    }
+  }
+
+  /**
+   * Record where each entry of a merged container came from
+   *
+   * @param target - The merged object or array
+   * @param origins - For each entry of the target: its key, and the container and key it was taken from
+   */
+  link(target: object, origins: Array<[key: string, source: unknown, sourceKey: string]>): void {
+    const entries = new Map<string, SourceLocation>();
+    let location: SourceLocation | undefined;
+
+    for (const [key, source, sourceKey] of origins) {
+      const sourceLocation =
+        typeof source === 'object' && source !== null ? this.nodes.get(source) : undefined;
+      const entry = sourceLocation?.entries.get(sourceKey);
+      if (entry) entries.set(key, entry);
+      location ??= sourceLocation?.location;
+    }
+
+    const existing = this.nodes.get(target);
+    location ??= existing?.location;
+    if (location) {
+      this.nodes.set(target, { location, entries });
+    }
+  }
+
+  /**
+   * Find the most precise known location for a path inside a document
+   *
+   * Walks the path as far as locations are known. A path that points at a missing
+   * key resolves to the location of its closest existing ancestor.
+   *
+   * @param root - The document root (as produced by parsing and merging)
+   * @param path - Path segments, as reported by Zod
+   * @returns The location, or undefined if the root was not parsed by this source map
+   */
+  locate(root: unknown, path: ReadonlyArray<string | number>): SourceLocation | undefined {
+    let node: unknown = root;
+    let location =
+      typeof root === 'object' && root !== null ? this.nodes.get(root)?.location : undefined;
+
+    for (const segment of path) {
+      if (typeof node !== 'object' || node === null) break;
+      const entry = this.nodes.get(node)?.entries.get(String(segment));
+      if (!entry) break;
+      location = entry;
+      node = (node as Record<string, unknown>)[segment];
+    }
+
+    return location;
+  }
+
+  /**
+   * Render the source lines around a location with a caret under the column
+   *
+   * @param location - Location to render
+   * @param contextLines - Number of lines to show before and after (default: 2)
+   * @returns The code frame, or undefined if the source is not available
+   */
+  codeFrame(location: SourceLocation, contextLines = 2): string | undefined {
+    const lines = this.sources.get(location.file);
+    if (!lines) return undefined;
+
+    const first = Math.max(1, location.line - contextLines);
+    const last = Math.min(lines.length, location.line + contextLines);
+    const gutterWidth = String(last).length;
+
+    const frame: string[] = [];
+    for (let line = first; line <= last; line++) {
+      const marker = line === location.line ? '>' : ' ';
+      frame.push(`${marker} ${String(line).padStart(gutterWidth)} | ${lines[line - 1]}`);
+      if (line === location.line) {
+        frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(location.column - 1)}^`);
+      }
+    }
+    return frame.join('\n');
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Manifest schema upgrades
+ *
+ * Manifests may declare the format version they were written for with
+ * `schemaVersion`. `loadManifest` upgrades older manifests in memory, one version at
+ * a time, before validating them against the current schema. The file on disk is not
+ * changed; every applied upgrade is reported as a warning so that the manifest can be
+ * updated at a convenient time (e.g. with the `migrate` command).
+ *
+ * Manifests without `schemaVersion` are treated as current and never rewritten, since
+ * some legacy constructs (e.g. `saasApps`) are still part of the current schema and
+ * consumers may read them. Legacy constructs recognized in such manifests are reported
+ * as warnings instead; those the current schema rejects (the simple `networking` form)
+ * then also fail validation.
+ */
+
+import { MANIFEST_SCHEMA_VERSION } from '../schemas/applications/unified';
+import type { ManifestIssue } from './issues';
+import { isSimpleNetworking, migrateSimpleNetworkingData } from './networking-migration';
+import { migrateSaasAppsData } from './saas-apps-migration';
+
+/**
+ * Upgrade of a parsed manifest from one schema version to the next
+ */
+export interface ManifestUpgradeStep {
+  /** Version the step upgrades from */
+  from: number;
+  /** Version the step upgrades to (`from + 1`) */
+  to: number;
+  /** What the step changes, used in warnings */
+  description: string;
+  /** Top-level key the step rewrites, used to locate its warning in the source */
+  key: string;
+  /**
+   * Whether the manifest still uses the constructs of `from`, reported as a warning for
+   * manifests that do not declare `schemaVersion`
+   */
+  detect: (manifest: Record<string, unknown>) => boolean;
+  /**
+   * Upgrade the manifest
+   * @returns A new manifest (the input must not be modified) and any issues to report
+   */
+  upgrade: (manifest: Record<string, unknown>) => {
+    manifest: Record<string, unknown>;
+    issues?: ManifestIssue[];
+  };
+}
+
+/**
+ * Result of upgrading a manifest to the current schema version
+ */
+export interface ManifestUpgradeResult {
+  /** The upgraded manifest (the input itself when no step changed anything) */
+  manifest: unknown;
+  /** Version the manifest declared (the current version when it declares none) */
+  fromVersion: number;
+  /** Version after upgrading */
+  toVersion: number;
+  /** Steps that changed the manifest, in order */
+  applied: ManifestUpgradeStep[];
+  /**
+   * One warning per applied step, followed by the steps' own issues, or one warning per
+   * legacy construct of a manifest without `schemaVersion`; an error when the manifest
+   * declares an unsupported version
+   */
+  issues: ManifestIssue[];
+}
+
+/**
+ * Registered upgrade steps, in version order
+ */
+export const MANIFEST_UPGRADE_STEPS: readonly ManifestUpgradeStep[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'removed manifestType (components now define what gets deployed)',
+    key: 'manifestType',
+    detect: (manifest) => 'manifestType' in manifest,
+    upgrade: (manifest) => ({
+      manifest:
+        'manifestType' in manifest
+          ? Object.fromEntries(Object.entries(manifest).filter(([key]) => key !== 'manifestType'))
+          : manifest,
+    }),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'moved saasApps entries into saasEdge and saasWorkload',
+    key: 'saasApps',
+    detect: (manifest) => Array.isArray(manifest.saasApps),
+    upgrade: (manifest) => migrateSaasAppsData(manifest),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'replaced the simple networking.vpc sizing with a full networking configuration',
+    key: 'networking',
+    detect: (manifest) => isSimpleNetworking(manifest.networking),
+    upgrade: (manifest) => migrateSimpleNetworkingData(manifest),
+  },
+];
+
+/**
+ * Upgrade a parsed manifest to the current schema version
+ *
+ * The input is not modified. Values that are not objects are returned unchanged so
+ * that schema validation can report them.
+ *
+ * @param manifest - Parsed manifest
+ * @param steps - Upgrade steps to apply (defaults to {@link MANIFEST_UPGRADE_STEPS})
+ * @returns The upgraded manifest and a report of the applied steps
+ *
+ * @example
+ * ```typescript
+ * const result = upgradeManifest(parsed);
+ * for (const step of result.applied) {
+ *   console.warn(`Upgraded from version ${step.from} to ${step.to}: ${step.description}`);
+ * }
+ * ```
+ */
+export function upgradeManifest(
+  manifest: unknown,
+  steps: readonly ManifestUpgradeStep[] = MANIFEST_UPGRADE_STEPS,
+): ManifestUpgradeResult {
+  const unchanged = {
+    manifest,
+    fromVersion: MANIFEST_SCHEMA_VERSION,
+    toVersion: MANIFEST_SCHEMA_VERSION,
+    applied: [],
+    issues: [],
+  };
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return unchanged;
+  }
+
+  const declared = (manifest as Record<string, unknown>).schemaVersion;
+  if (declared === undefined) {
+    return {
+      ...unchanged,
+      issues: steps
+        .filter((step) => step.detect(manifest as Record<string, unknown>))
+        .map((step) => ({
+          path: [step.key],
+          message: `Manifest uses ${step.key} from schemaVersion ${step.from} but declares no schemaVersion, so it is not upgraded. Declare schemaVersion: ${step.from} to upgrade it in memory (${step.description})`,
+          code: 'legacy_manifest',
+          severity: 'warning' as const,
+        })),
+    };
+  }
+
+  if (
+    typeof declared !== 'number' ||
+    !Number.isInteger(declared) ||
+    declared < 1 ||
+    declared > MANIFEST_SCHEMA_VERSION
+  ) {
+    return {
+      ...unchanged,
+      issues: [
+        {
+          path: ['schemaVersion'],
+          message: `Unsupported schemaVersion ${JSON.stringify(declared)}: this version of @codeiqlabs/aws-utils supports versions 1 to ${MANIFEST_SCHEMA_VERSION}`,
+          code: 'unsupported_schema_version',
+        },
+      ],
+    };
+  }
+
+  let current = manifest as Record<string, unknown>;
+  const applied: ManifestUpgradeStep[] = [];
+  const issues: ManifestIssue[] = [];
+
+  for (const step of steps) {
+    if (step.from < declared) continue;
+
+    const result = step.upgrade(current);
+    if (result.manifest === current && !result.issues?.length) continue;
+
+    applied.push(step);
+    issues.push({
+      path: [step.key],
+      message: `Manifest upgraded from schemaVersion ${step.from} to ${step.to}: ${step.description}`,
+      code: 'manifest_upgraded',
+      severity: 'warning',
+    });
+    issues.push(...(result.issues ?? []));
+    current = result.manifest;
+  }
+
+  if (declared !== MANIFEST_SCHEMA_VERSION) {
+    current = { ...current, schemaVersion: MANIFEST_SCHEMA_VERSION };
+  }
+
+  return {
+    manifest: current,
+    fromVersion: declared,
+    toVersion: MANIFEST_SCHEMA_VERSION,
+    applied,
+    issues,
+  };
+}
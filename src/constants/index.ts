@@ -7,3 +7,6 @@
 
 // Environment constants and utilities
 export * from './environments';
+
+// Region short codes
+export * from './regions';
@@ -0,0 +1,148 @@
+/**
+ * AWS region and partition constants for CodeIQLabs AWS utilities
+ *
+ * Short region codes keep region-scoped names within AWS length limits:
+ * `us-east-1` → `use1`, `eu-west-2` → `euw2`, `ap-southeast-2` → `apse2`.
+ */
+
+/**
+ * Short codes of the AWS regions
+ *
+ * Codes are unique, so names that include the short region cannot collide across regions.
+ * Regions missing from the table get a code built the same way (see {@link getRegionShortCode}).
+ */
+export const REGION_SHORT_CODES: Readonly<Record<string, string>> = {
+  'us-east-1': 'use1',
+  'us-east-2': 'use2',
+  'us-west-1': 'usw1',
+  'us-west-2': 'usw2',
+  'af-south-1': 'afs1',
+  'ap-east-1': 'ape1',
+  'ap-east-2': 'ape2',
+  'ap-south-1': 'aps1',
+  'ap-south-2': 'aps2',
+  'ap-northeast-1': 'apne1',
+  'ap-northeast-2': 'apne2',
+  'ap-northeast-3': 'apne3',
+  'ap-southeast-1': 'apse1',
+  'ap-southeast-2': 'apse2',
+  'ap-southeast-3': 'apse3',
+  'ap-southeast-4': 'apse4',
+  'ap-southeast-5': 'apse5',
+  'ap-southeast-7': 'apse7',
+  'ca-central-1': 'cac1',
+  'ca-west-1': 'caw1',
+  'eu-central-1': 'euc1',
+  'eu-central-2': 'euc2',
+  'eu-west-1': 'euw1',
+  'eu-west-2': 'euw2',
+  'eu-west-3': 'euw3',
+  'eu-south-1': 'eus1',
+  'eu-south-2': 'eus2',
+  'eu-north-1': 'eun1',
+  'il-central-1': 'ilc1',
+  'me-south-1': 'mes1',
+  'me-central-1': 'mec1',
+  'mx-central-1': 'mxc1',
+  'sa-east-1': 'sae1',
+  'us-gov-east-1': 'usge1',
+  'us-gov-west-1': 'usgw1',
+  'cn-north-1': 'cnn1',
+  'cn-northwest-1': 'cnnw1',
+};
+
+/**
+ * Codes of the direction (and partition) segments of region names
+ */
+const REGION_SEGMENT_CODES: Record<string, string> = {
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+  central: 'c',
+  northeast: 'ne',
+  northwest: 'nw',
+  southeast: 'se',
+  southwest: 'sw',
+  gov: 'g',
+};
+
+/**
+ * Format of an AWS region: area, one or more location segments and a number
+ * (e.g. `us-east-1`, `us-gov-west-1`)
+ */
+export const AWS_REGION_PATTERN = /^([a-z]{2})-((?:[a-z]+-)*[a-z]+)-(\d{1,2})$/;
+
+/**
+ * Get the short code of an AWS region
+ * @param region - AWS region (e.g., 'us-east-1')
+ * @returns Short code from {@link REGION_SHORT_CODES}; for other regions the area, the
+ * direction initials and the number
+ * @throws Error if the region is not formatted like an AWS region
+ *
+ * @example
+ * ```typescript
+ * getRegionShortCode('us-east-1') // Returns: 'use1'
+ * getRegionShortCode('eu-west-2') // Returns: 'euw2'
+ * getRegionShortCode('ap-southeast-2') // Returns: 'apse2'
+ * getRegionShortCode('us-gov-west-1') // Returns: 'usgw1'
+ * ```
+ */
+export function getRegionShortCode(region: string): string {
+  const normalized = (region ?? '').toLowerCase().trim();
+  if (REGION_SHORT_CODES[normalized]) {
+    return REGION_SHORT_CODES[normalized];
+  }
+
+  const match = AWS_REGION_PATTERN.exec(normalized);
+  if (!match) {
+    throw new Error(`Invalid AWS region '${region}'. Expected a region such as 'us-east-1'`);
+  }
+
+  const [, area, segments, number] = match;
+  const directions = segments
+    .split('-')
+    .map((segment) => REGION_SEGMENT_CODES[segment] ?? segment[0])
+    .join('');
+  return `${area}${directions}${number}`;
+}
+
+/**
+ * Get the AWS region of a short code from {@link REGION_SHORT_CODES}
+ * @param shortCode - Short region code (e.g., 'euw2')
+ * @returns The region, or undefined for unknown codes
+ *
+ * @example
+ * ```typescript
+ * getRegionFromShortCode('euw2') // Returns: 'eu-west-2'
+ * ```
+ */
+export function getRegionFromShortCode(shortCode: string): string | undefined {
+  const code = (shortCode ?? '').toLowerCase().trim();
+  return Object.keys(REGION_SHORT_CODES).find((region) => REGION_SHORT_CODES[region] === code);
+}
+
+/**
+ * AWS partitions
+ */
+export const AWS_PARTITIONS = ['aws', 'aws-cn', 'aws-us-gov'] as const;
+
+export type AwsPartition = (typeof AWS_PARTITIONS)[number];
+
+/**
+ * Get the partition an AWS region belongs to
+ * @param region - AWS region (e.g., 'cn-north-1')
+ * @returns 'aws-cn' for China regions, 'aws-us-gov' for GovCloud regions, 'aws' otherwise
+ *
+ * @example
+ * ```typescript
+ * getRegionPartition('us-east-1') // Returns: 'aws'
+ * getRegionPartition('us-gov-west-1') // Returns: 'aws-us-gov'
+ * ```
+ */
+export function getRegionPartition(region: string): AwsPartition {
+  const normalized = (region ?? '').toLowerCase().trim();
+  if (normalized.startsWith('cn-')) return 'aws-cn';
+  if (normalized.startsWith('us-gov-')) return 'aws-us-gov';
+  return 'aws';
+}
@@ -3,21 +3,274 @@
  *
  * These utilities provide consistent environment variable handling
  * with validation and error reporting across CodeIQLabs projects.
+ *
+ * Typed readers (`getIntEnvVar`, `getBooleanEnvVar`, ...) parse a single variable with
+ * the Zod schemas exported below; `loadEnv` validates a whole set of variables at once.
+ *
+ * Values of sensitive variables (`sensitive: true`, or names matching
+ * `SENSITIVE_ENV_VAR_PATTERNS`) are masked in verbose output and error messages.
  */
 
+import { z } from 'zod';
+import { AWS_REGION_PATTERN } from '../constants/regions';
+
 // Type declarations for Node.js globals
 declare const process: {
   env: Record<string, string | undefined>;
 };
 
-declare const console: {
-  log: (message: string) => void;
-};
+/**
+ * Receives the messages of verbose environment variable helpers
+ */
+export type EnvLogger = (message: string) => void;
 
 export interface EnvVarOptions {
   description?: string;
   verbose?: boolean;
   errorPrefix?: string;
+  /**
+   * Mask the value in verbose output and error messages; defaults to whether the name
+   * matches {@link SENSITIVE_ENV_VAR_PATTERNS}
+   */
+  sensitive?: boolean;
+  /** Logger for verbose output (defaults to `console.log`) */
+  logger?: EnvLogger;
+}
+
+/**
+ * Names of variables whose values are masked unless `sensitive: false` is passed:
+ * `*_TOKEN`, `*_SECRET`, `*_KEY` and `*PASSWORD*` (case-insensitive)
+ */
+export const SENSITIVE_ENV_VAR_PATTERNS: readonly RegExp[] = [
+  /_TOKEN$/i,
+  /_SECRET$/i,
+  /_KEY$/i,
+  /PASSWORD/i,
+];
+
+const MASK = '****';
+
+/**
+ * Options for typed environment variable readers
+ */
+export interface TypedEnvVarOptions<T> extends EnvVarOptions {
+  /** Value returned when the variable is not set; without it the variable is required */
+  default?: T;
+}
+
+/**
+ * Options for {@link getIntEnvVar}
+ */
+export interface IntEnvVarOptions extends TypedEnvVarOptions<number> {
+  /** Smallest accepted value */
+  min?: number;
+  /** Largest accepted value */
+  max?: number;
+}
+
+/**
+ * Options for {@link getJsonEnvVar}
+ */
+export interface JsonEnvVarOptions<T> extends TypedEnvVarOptions<T> {
+  /** Schema the parsed JSON must match */
+  schema?: z.ZodType<T>;
+}
+
+/**
+ * Options for {@link getListEnvVar}
+ */
+export interface ListEnvVarOptions extends TypedEnvVarOptions<string[]> {
+  /** Item separator (defaults to `,`) */
+  separator?: string;
+}
+
+/**
+ * Options for {@link loadEnv}
+ */
+export interface LoadEnvOptions {
+  /** Variables to validate (defaults to `process.env`) */
+  env?: Record<string, string | undefined>;
+  /** Prefix of the error message */
+  errorPrefix?: string;
+  /**
+   * Variables whose values are masked in the error message, in addition to the names
+   * matching {@link SENSITIVE_ENV_VAR_PATTERNS}
+   */
+  sensitive?: readonly string[];
+}
+
+/**
+ * Whether a variable name looks like it holds a secret
+ *
+ * @param key - Environment variable name
+ * @returns True if the name matches one of {@link SENSITIVE_ENV_VAR_PATTERNS}
+ */
+export function isSensitiveEnvVar(key: string): boolean {
+  return SENSITIVE_ENV_VAR_PATTERNS.some((pattern) => pattern.test(key));
+}
+
+/**
+ * Log a variable's value when verbose output is enabled, masking sensitive values
+ */
+function logEnvVar(message: string, key: string, value: string, options: EnvVarOptions): void {
+  if (!options.verbose) return;
+  const logger = options.logger ?? ((line: string) => console.log(line));
+  logger(`${message}: ${(options.sensitive ?? isSensitiveEnvVar(key)) ? MASK : value}`);
+}
+
+/**
+ * Remove a sensitive value from a message (e.g. a Zod issue quoting the received value)
+ */
+function maskValue(message: string, key: string, value: string, sensitive?: boolean): string {
+  return (sensitive ?? isSensitiveEnvVar(key)) && value.trim() !== ''
+    ? message.split(value.trim()).join(MASK)
+    : message;
+}
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+/**
+ * Integer environment variable value, e.g. `8080`
+ */
+export const EnvIntSchema = z
+  .string()
+  .trim()
+  .regex(/^[-+]?\d+$/, 'Expected an integer')
+  .transform(Number)
+  .refine(Number.isSafeInteger, 'Integer is too large');
+
+/**
+ * Boolean environment variable value: `true`/`false`, `1`/`0`, `yes`/`no` or `on`/`off`
+ * (case-insensitive)
+ */
+export const EnvBooleanSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .refine(
+    (value) => TRUE_VALUES.includes(value) || FALSE_VALUES.includes(value),
+    `Expected one of: ${[...TRUE_VALUES, ...FALSE_VALUES].join(', ')}`,
+  )
+  .transform((value) => TRUE_VALUES.includes(value));
+
+/**
+ * Absolute URL environment variable value
+ */
+export const EnvUrlSchema = z.string().trim().url('Expected an absolute URL');
+
+/**
+ * AWS region environment variable value, e.g. `us-east-1`
+ */
+export const EnvRegionSchema = z
+  .string()
+  .trim()
+  .regex(AWS_REGION_PATTERN, 'Expected an AWS region such as us-east-1');
+
+/**
+ * JSON environment variable value, optionally validated against a schema
+ *
+ * @param schema - Schema the parsed JSON must match
+ * @returns A schema that parses the variable as JSON
+ */
+export function envJsonSchema<T = unknown>(schema?: z.ZodType<T>) {
+  return z
+    .string()
+    .transform((value, ctx): unknown => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        // The parser's message quotes the value, which may be a secret
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema ?? (z.unknown() as z.ZodType<T>));
+}
+
+/**
+ * Schema produced by {@link envListSchema}
+ */
+export type EnvListSchema<Item extends z.ZodTypeAny> = z.ZodPipeline<
+  z.ZodEffects<z.ZodString, string[], string>,
+  z.ZodArray<Item>
+>;
+
+/**
+ * Separated list environment variable value, e.g. `a, b, c`
+ *
+ * Items are trimmed and empty items are dropped.
+ *
+ * @param item - Schema each item must match (default: any string)
+ * @param separator - Item separator
+ * @returns A schema that splits the variable into a list
+ */
+export function envListSchema(item?: undefined, separator?: string): EnvListSchema<z.ZodString>;
+export function envListSchema<Item extends z.ZodType<unknown, z.ZodTypeDef, string>>(
+  item: Item,
+  separator?: string,
+): EnvListSchema<Item>;
+export function envListSchema(
+  item: z.ZodType<unknown, z.ZodTypeDef, string> = z.string(),
+  separator = ',',
+): EnvListSchema<z.ZodType<unknown, z.ZodTypeDef, string>> {
+  return z
+    .string()
+    .transform((value) =>
+      value
+        .split(separator)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== ''),
+    )
+    .pipe(z.array(item));
+}
+
+/**
+ * Read an environment variable and parse it with a schema
+ *
+ * Unset or empty variables return `options.default` when given and are required otherwise.
+ */
+function readEnvVar<T>(
+  key: string,
+  schema: z.ZodType<T, z.ZodTypeDef, string>,
+  options: TypedEnvVarOptions<T>,
+): T {
+  const value = process.env[key];
+
+  if ((!value || value.trim() === '') && options.default !== undefined) {
+    logEnvVar(`Using default value for ${key}`, key, JSON.stringify(options.default), options);
+    return options.default;
+  }
+
+  const prefix = options.errorPrefix ?? 'Configuration Error';
+  const description = options.description ? ` (${options.description})` : '';
+  if (!value || value.trim() === '') {
+    throw new Error(
+      `${prefix}: Missing value for environment variable '${key}'${description}: ` +
+        `not set and no default given. Please set ${key} in your environment.`,
+    );
+  }
+
+  const raw = value.trim();
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => describeIssue(issue)).join('; ');
+    throw new Error(
+      `${prefix}: Invalid value for environment variable '${key}'${description}: ` +
+        maskValue(details, key, raw, options.sensitive),
+    );
+  }
+
+  logEnvVar(`Using environment variable ${key}`, key, JSON.stringify(result.data), options);
+
+  return result.data;
+}
+
+/**
+ * Describe a Zod issue, including its path inside JSON and list values
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
 }
 
 /**
@@ -40,9 +293,7 @@ export function getRequiredEnvVar(key: string, options: EnvVarOptions = {}): str
     );
   }
 
-  if (options.verbose) {
-    console.log(`Using environment variable ${key}: ${value}`);
-  }
+  logEnvVar(`Using environment variable ${key}`, key, value, options);
 
   return value.trim();
 }
@@ -88,9 +339,7 @@ export function getAccountIdFromEnv(
     );
   }
 
-  if (options.verbose) {
-    console.log(`Validated AWS Account ID for ${accountName}: ${accountId}`);
-  }
+  logEnvVar(`Validated AWS Account ID for ${accountName}`, envVarName, accountId, options);
 
   return accountId;
 }
@@ -111,15 +360,191 @@ export function getEnvVarWithDefault(
   const value = process.env[key];
 
   if (!value || value.trim() === '') {
-    if (options.verbose) {
-      console.log(`Using default value for ${key}: ${defaultValue}`);
-    }
+    logEnvVar(`Using default value for ${key}`, key, defaultValue, options);
     return defaultValue;
   }
 
-  if (options.verbose) {
-    console.log(`Using environment variable ${key}: ${value.trim()}`);
-  }
+  logEnvVar(`Using environment variable ${key}`, key, value.trim(), options);
 
   return value.trim();
 }
+
+/**
+ * Get an integer environment variable
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default and range
+ * @returns The parsed integer
+ * @throws Error if the variable is not set (and has no default), not an integer or out of range
+ */
+export function getIntEnvVar(key: string, options: IntEnvVarOptions = {}): number {
+  let schema: z.ZodType<number, z.ZodTypeDef, string> = EnvIntSchema;
+  if (options.min !== undefined) {
+    const min = options.min;
+    schema = schema.refine((value) => value >= min, `Expected an integer >= ${min}`);
+  }
+  if (options.max !== undefined) {
+    const max = options.max;
+    schema = schema.refine((value) => value <= max, `Expected an integer <= ${max}`);
+  }
+  return readEnvVar(key, schema, options);
+}
+
+/**
+ * Get a boolean environment variable
+ *
+ * Accepts `true`/`false`, `1`/`0`, `yes`/`no` and `on`/`off` (case-insensitive).
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default
+ * @returns The parsed boolean
+ * @throws Error if the variable is not set (and has no default) or not a boolean
+ */
+export function getBooleanEnvVar(key: string, options: TypedEnvVarOptions<boolean> = {}): boolean {
+  return readEnvVar(key, EnvBooleanSchema, options);
+}
+
+/**
+ * Get an environment variable that must be one of a list of values
+ *
+ * @param key - Environment variable name
+ * @param values - Allowed values
+ * @param options - Configuration options, including an optional default
+ * @returns The value
+ * @throws Error if the variable is not set (and has no default) or not an allowed value
+ *
+ * @example
+ * ```typescript
+ * const logLevel = getEnumEnvVar('LOG_LEVEL', ['debug', 'info', 'warn', 'error'], {
+ *   default: 'info',
+ * });
+ * ```
+ */
+export function getEnumEnvVar<T extends string>(
+  key: string,
+  values: readonly [T, ...T[]],
+  options: TypedEnvVarOptions<T> = {},
+): T {
+  return readEnvVar(key, z.string().trim().pipe(z.enum(values)), options);
+}
+
+/**
+ * Get an absolute URL environment variable
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default
+ * @returns The URL
+ * @throws Error if the variable is not set (and has no default) or not an absolute URL
+ */
+export function getUrlEnvVar(key: string, options: TypedEnvVarOptions<string> = {}): string {
+  return readEnvVar(key, EnvUrlSchema, options);
+}
+
+/**
+ * Get a JSON environment variable
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default and schema
+ * @returns The parsed value
+ * @throws Error if the variable is not set (and has no default), not valid JSON or does
+ * not match the schema
+ *
+ * @example
+ * ```typescript
+ * const origins = getJsonEnvVar('CORS_ORIGINS', { schema: z.array(z.string().url()) });
+ * ```
+ */
+export function getJsonEnvVar<T = unknown>(key: string, options: JsonEnvVarOptions<T> = {}): T {
+  return readEnvVar(key, envJsonSchema(options.schema), options);
+}
+
+/**
+ * Get a comma-separated list environment variable
+ *
+ * Items are trimmed and empty items are dropped.
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default and separator
+ * @returns The list items
+ * @throws Error if the variable is not set and has no default
+ */
+export function getListEnvVar(key: string, options: ListEnvVarOptions = {}): string[] {
+  return readEnvVar(key, envListSchema(undefined, options.separator), options);
+}
+
+/**
+ * Get and validate an AWS region from environment variable
+ *
+ * @param key - Environment variable name
+ * @param options - Configuration options, including an optional default
+ * @returns The region (e.g. `us-east-1`)
+ * @throws Error if the variable is not set (and has no default) or not a region
+ */
+export function getRegionFromEnv(key: string, options: TypedEnvVarOptions<string> = {}): string {
+  return readEnvVar(key, EnvRegionSchema, options);
+}
+
+/**
+ * Validate environment variables against a Zod object schema
+ *
+ * Empty variables are treated as unset, so `.optional()` and `.default()` apply to them.
+ * Every missing or malformed variable is reported in a single error, with the values of
+ * variables matching {@link SENSITIVE_ENV_VAR_PATTERNS} or listed in `options.sensitive`
+ * masked. The typed schemas of this module (`EnvIntSchema`, `EnvBooleanSchema`,
+ * `envListSchema()`, ...) parse values that are not plain strings.
+ *
+ * @param schema - Object schema keyed by environment variable name
+ * @param options - Configuration options
+ * @returns The parsed variables
+ * @throws Error listing every missing or invalid variable
+ *
+ * @example
+ * ```typescript
+ * import { AwsAccountIdSchema, AwsRegionSchema } from '@codeiqlabs/aws-utils/config';
+ *
+ * const env = loadEnv(
+ *   z.object({
+ *     CDK_DEFAULT_ACCOUNT: AwsAccountIdSchema,
+ *     CDK_DEFAULT_REGION: AwsRegionSchema.default('us-east-1'),
+ *     PORT: EnvIntSchema.default('8080'),
+ *     FEATURE_FLAGS: envListSchema().optional(),
+ *   }),
+ * );
+ * ```
+ */
+export function loadEnv<T extends z.ZodRawShape>(
+  schema: z.ZodObject<T>,
+  options: LoadEnvOptions = {},
+): z.output<z.ZodObject<T>> {
+  const env = options.env ?? process.env;
+  const values = Object.fromEntries(
+    Object.keys(schema.shape).map((key) => {
+      const value = env[key];
+      return [key, value === undefined || value.trim() === '' ? undefined : value];
+    }),
+  );
+
+  const result = schema.safeParse(values);
+  if (result.success) {
+    return result.data;
+  }
+
+  const problems = result.error.issues.map((issue) => {
+    const [key, ...path] = issue.path;
+    const missing = issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined';
+    const detail = missing
+      ? 'not set'
+      : maskValue(
+          describeIssue({ ...issue, path }),
+          String(key),
+          env[String(key)] ?? '',
+          options.sensitive?.includes(String(key)) || undefined,
+        );
+    return `  - ${String(key)}: ${detail}`;
+  });
+  const count = new Set(result.error.issues.map((issue) => issue.path[0])).size;
+  const prefix = options.errorPrefix ?? 'Configuration Error';
+  throw new Error(
+    `${prefix}: ${count} environment variable(s) missing or invalid:\n${problems.join('\n')}`,
+  );
+}
@@ -11,5 +11,28 @@ export {
   getRequiredEnvVarStrict,
   getAccountIdFromEnv,
   getEnvVarWithDefault,
+  getIntEnvVar,
+  getBooleanEnvVar,
+  getEnumEnvVar,
+  getUrlEnvVar,
+  getJsonEnvVar,
+  getListEnvVar,
+  getRegionFromEnv,
+  loadEnv,
+  isSensitiveEnvVar,
+  SENSITIVE_ENV_VAR_PATTERNS,
+  EnvIntSchema,
+  EnvBooleanSchema,
+  EnvUrlSchema,
+  EnvRegionSchema,
+  envJsonSchema,
+  envListSchema,
+  type EnvListSchema,
   type EnvVarOptions,
+  type EnvLogger,
+  type TypedEnvVarOptions,
+  type IntEnvVarOptions,
+  type JsonEnvVarOptions,
+  type ListEnvVarOptions,
+  type LoadEnvOptions,
 } from './env';
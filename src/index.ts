@@ -24,6 +24,7 @@ export {
   // Generic loaders with auto-detection
   loadManifest,
   isManifestFile,
+  validateManifestSemantics,
 } from './config';
 
 // Export commonly used configuration types
@@ -41,6 +42,10 @@ export type {
   OrganizationConfig,
   IdentityCenterConfig,
   AuroraConfig,
+  NetworkingConfig,
+  SecurityConfig,
+  ComplianceConfig,
+  DynamoDBConfig,
   // Generic loader types
   ManifestFormat,
   ManifestLoadResult,
@@ -54,6 +59,7 @@ export type {
   PermissionSetConfig,
   SSOAssignmentConfig,
   UserConfig,
+  GroupConfig,
   OrganizationalUnitConfig,
   ConfigMode,
   AccountConfig,
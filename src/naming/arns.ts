@@ -0,0 +1,414 @@
+/**
+ * ARN builders and parser for the resource types the naming utilities generate names for
+ *
+ * Builders take the account ID and region from the naming config (or the options) and
+ * derive the partition from the region, so that the same code produces
+ * `arn:aws-cn:...` ARNs in China regions and `arn:aws-us-gov:...` ARNs in GovCloud.
+ */
+
+import type { NamingConfig } from './types';
+import { AWS_PARTITIONS, getRegionPartition, type AwsPartition } from '../constants/regions';
+
+/**
+ * Resource types with ARN builders
+ */
+export type ArnResourceType =
+  | 'Role'
+  | 'Bucket'
+  | 'Function'
+  | 'Secret'
+  | 'Parameter'
+  | 'LogGroup'
+  | 'Table'
+  | 'Queue'
+  | 'Topic'
+  | 'EventBus';
+
+/**
+ * Options for building ARNs
+ */
+export interface ArnOptions {
+  /** Partition (default: the partition of the region, or 'aws' for global resources) */
+  partition?: AwsPartition;
+  /** Account ID (default: `accountId` of the naming config) */
+  accountId?: string;
+  /** Region (default: `region` of the naming config) */
+  region?: string;
+}
+
+/**
+ * Components of an ARN
+ */
+export interface ParsedArn {
+  partition: AwsPartition;
+  /** Service namespace (e.g. 'lambda') */
+  service: string;
+  /** Region, empty for global resources */
+  region: string;
+  /** Account ID, empty for S3 buckets */
+  accountId: string;
+  /** Everything after the account ID (e.g. 'function:my-function') */
+  resource: string;
+  /** Resource type, when the ARN is one the builders produce */
+  resourceType?: ArnResourceType;
+  /** Name of the resource, when the resource type is recognized */
+  resourceName?: string;
+  /** IAM path of a role (e.g. '/service-role/'), '/' when the role has none */
+  path?: string;
+  /** Random six characters Secrets Manager appends to a secret ARN, when present */
+  secretSuffix?: string;
+}
+
+/**
+ * ARN layout of a resource type
+ */
+interface ArnFormat {
+  service: string;
+  /** Text between the account ID and the resource name */
+  prefix: string;
+  /** Whether the ARN contains the region */
+  regional: boolean;
+  /** Whether the ARN contains the account ID */
+  account: boolean;
+  /** Description used in error messages */
+  description: string;
+}
+
+const ARN_FORMATS: Record<ArnResourceType, ArnFormat> = {
+  Role: {
+    service: 'iam',
+    prefix: 'role/',
+    regional: false,
+    account: true,
+    description: 'IAM role',
+  },
+  Bucket: { service: 's3', prefix: '', regional: false, account: false, description: 'S3 bucket' },
+  Function: {
+    service: 'lambda',
+    prefix: 'function:',
+    regional: true,
+    account: true,
+    description: 'Lambda function',
+  },
+  Secret: {
+    service: 'secretsmanager',
+    prefix: 'secret:',
+    regional: true,
+    account: true,
+    description: 'Secrets Manager secret',
+  },
+  Parameter: {
+    service: 'ssm',
+    prefix: 'parameter/',
+    regional: true,
+    account: true,
+    description: 'SSM parameter',
+  },
+  LogGroup: {
+    service: 'logs',
+    prefix: 'log-group:',
+    regional: true,
+    account: true,
+    description: 'CloudWatch log group',
+  },
+  Table: {
+    service: 'dynamodb',
+    prefix: 'table/',
+    regional: true,
+    account: true,
+    description: 'DynamoDB table',
+  },
+  Queue: { service: 'sqs', prefix: '', regional: true, account: true, description: 'SQS queue' },
+  Topic: { service: 'sns', prefix: '', regional: true, account: true, description: 'SNS topic' },
+  EventBus: {
+    service: 'events',
+    prefix: 'event-bus/',
+    regional: true,
+    account: true,
+    description: 'EventBridge event bus',
+  },
+};
+
+const ARN_PATTERN = /^arn:([a-z-]+):([a-z0-9-]+):([a-z0-9-]*):(\d{12}|aws)?:(.+)$/;
+
+/**
+ * Build the ARN of a resource
+ * @param resourceType - Resource type
+ * @param config - Naming configuration providing the account ID and region
+ * @param name - Resource name (for SSM parameters, with or without the leading `/`)
+ * @param options - Partition, account ID or region overrides
+ * @returns The ARN
+ * @throws Error if the account ID or region the ARN needs is missing or invalid, or the
+ * partition does not match the region
+ *
+ * @example
+ * ```typescript
+ * generateArn('Function', { ...naming, region: 'cn-north-1' }, 'shop-nprd-api')
+ * // Returns: 'arn:aws-cn:lambda:cn-north-1:123456789012:function:shop-nprd-api'
+ * ```
+ */
+export function generateArn(
+  resourceType: ArnResourceType,
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  name: string,
+  options: ArnOptions = {},
+): string {
+  const format = ARN_FORMATS[resourceType];
+  if (!name) {
+    throw new Error(`Resource name is required for ${format.description} ARNs`);
+  }
+
+  const region = options.region ?? config.region;
+  const accountId = options.accountId ?? config.accountId;
+  if (format.regional && !region) {
+    throw new Error(`Region is required for ${format.description} ARNs`);
+  }
+  if (format.account && !accountId) {
+    throw new Error(`Account ID is required for ${format.description} ARNs`);
+  }
+  if (format.account && !/^\d{12}$/.test(accountId ?? '')) {
+    throw new Error(`Invalid account ID '${accountId}': expected 12 digits`);
+  }
+
+  const partition = options.partition ?? (region ? getRegionPartition(region) : 'aws');
+  if (region && getRegionPartition(region) !== partition) {
+    throw new Error(`Region '${region}' is not in the '${partition}' partition`);
+  }
+
+  const resourceName = resourceType === 'Parameter' ? name.replace(/^\//, '') : name;
+  return [
+    'arn',
+    partition,
+    format.service,
+    format.regional ? region : '',
+    format.account ? accountId : '',
+    `${format.prefix}${resourceName}`,
+  ].join(':');
+}
+
+/**
+ * Build an IAM role ARN: `arn:{partition}:iam::{accountId}:role/{name}`
+ */
+export function generateRoleArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  roleName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Role', config, roleName, options);
+}
+
+/**
+ * Build an S3 bucket ARN: `arn:{partition}:s3:::{name}`
+ */
+export function generateBucketArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  bucketName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Bucket', config, bucketName, options);
+}
+
+/**
+ * Build a Lambda function ARN: `arn:{partition}:lambda:{region}:{accountId}:function:{name}`
+ */
+export function generateFunctionArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  functionName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Function', config, functionName, options);
+}
+
+/**
+ * Build a Secrets Manager secret ARN:
+ * `arn:{partition}:secretsmanager:{region}:{accountId}:secret:{name}`
+ *
+ * Secrets Manager appends six random characters to secret ARNs; IAM policies can match
+ * them with `${arn}-??????`. Avoid names ending with `-` and six characters: like Secrets
+ * Manager, {@link parseArn} reads those as the random suffix.
+ */
+export function generateSecretArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  secretName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Secret', config, secretName, options);
+}
+
+/**
+ * Build an SSM parameter ARN: `arn:{partition}:ssm:{region}:{accountId}:parameter/{path}`
+ */
+export function generateParameterArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  parameterName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Parameter', config, parameterName, options);
+}
+
+/**
+ * Build a CloudWatch log group ARN: `arn:{partition}:logs:{region}:{accountId}:log-group:{name}`
+ */
+export function generateLogGroupArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  logGroupName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('LogGroup', config, logGroupName, options);
+}
+
+/**
+ * Build a DynamoDB table ARN: `arn:{partition}:dynamodb:{region}:{accountId}:table/{name}`
+ */
+export function generateTableArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  tableName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Table', config, tableName, options);
+}
+
+/**
+ * Build an SQS queue ARN: `arn:{partition}:sqs:{region}:{accountId}:{name}`
+ */
+export function generateQueueArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  queueName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Queue', config, queueName, options);
+}
+
+/**
+ * Build an SNS topic ARN: `arn:{partition}:sns:{region}:{accountId}:{name}`
+ */
+export function generateTopicArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  topicName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('Topic', config, topicName, options);
+}
+
+/**
+ * Build an EventBridge event bus ARN:
+ * `arn:{partition}:events:{region}:{accountId}:event-bus/{name}`
+ */
+export function generateEventBusArn(
+  config: Pick<NamingConfig, 'accountId' | 'region'>,
+  eventBusName: string,
+  options?: ArnOptions,
+): string {
+  return generateArn('EventBus', config, eventBusName, options);
+}
+
+/**
+ * Resource name and extra components parsed from the resource part of an ARN
+ */
+type ParsedResource = Pick<ParsedArn, 'resourceName' | 'path' | 'secretSuffix'>;
+
+/**
+ * Random suffix of a complete secret ARN (`-` and six letters or digits)
+ */
+const SECRET_SUFFIX_PATTERN = /^(.+)-([A-Za-z0-9]{6})$/;
+
+/**
+ * Get the resource name from the resource part of an ARN of a known resource type
+ */
+function parseResource(resourceType: ArnResourceType, rest: string): ParsedResource {
+  switch (resourceType) {
+    case 'Role': {
+      // Roles may have a path: role/service-role/my-role
+      const separator = rest.lastIndexOf('/');
+      return {
+        resourceName: rest.slice(separator + 1) || undefined,
+        path: separator === -1 ? '/' : `/${rest.slice(0, separator + 1)}`,
+      };
+    }
+    case 'Function':
+      // Qualified function ARNs end with :version or :alias
+      return { resourceName: rest.split(':')[0] };
+    case 'Parameter':
+      return { resourceName: rest.includes('/') ? `/${rest}` : rest };
+    case 'LogGroup':
+      return { resourceName: rest.replace(/:\*$/, '') };
+    case 'Bucket':
+    case 'Table':
+    case 'EventBus':
+      // Objects, streams, indexes and rules below the resource are not the resource itself
+      return { resourceName: rest.includes('/') ? undefined : rest };
+    case 'Queue':
+    case 'Topic':
+      // Topic subscriptions end with :subscription-id
+      return { resourceName: rest.includes(':') ? undefined : rest };
+    case 'Secret': {
+      // Complete ARNs end with the random suffix; like Secrets Manager itself, this cannot
+      // tell it apart from a partial ARN whose name ends with '-' and six characters
+      const match = SECRET_SUFFIX_PATTERN.exec(rest);
+      return match ? { resourceName: match[1], secretSuffix: match[2] } : { resourceName: rest };
+    }
+    default:
+      return { resourceName: rest };
+  }
+}
+
+/**
+ * Parse an ARN
+ * @param arn - ARN to parse
+ * @returns The ARN components, with the resource type and name when the ARN is of a type
+ * the builders produce (the name of a role without its path, and of a secret without the
+ * random suffix of complete secret ARNs)
+ * @throws Error if the value is not an ARN of the `aws`, `aws-cn` or `aws-us-gov` partition
+ *
+ * @example
+ * ```typescript
+ * parseArn('arn:aws-us-gov:sqs:us-gov-west-1:123456789012:shop-prod-orders')
+ * // Returns: { partition: 'aws-us-gov', service: 'sqs', region: 'us-gov-west-1',
+ * //   accountId: '123456789012', resource: 'shop-prod-orders', resourceType: 'Queue',
+ * //   resourceName: 'shop-prod-orders' }
+ *
+ * parseArn('arn:aws:iam::123456789012:role/service-role/shop-nprd-api')
+ * // Returns: { ..., resourceType: 'Role', resourceName: 'shop-nprd-api', path: '/service-role/' }
+ *
+ * parseArn('arn:aws:secretsmanager:us-east-1:123456789012:secret:shop/nprd/stripe-AbCdEf')
+ * // Returns: { ..., resourceType: 'Secret', resourceName: 'shop/nprd/stripe', secretSuffix: 'AbCdEf' }
+ * ```
+ */
+export function parseArn(arn: string): ParsedArn {
+  const match = ARN_PATTERN.exec(arn ?? '');
+  if (!match) {
+    throw new Error(
+      `Invalid ARN '${arn}': expected arn:partition:service:region:account-id:resource`,
+    );
+  }
+
+  const [, partition, service, region, accountId = '', resource] = match;
+  if (!(AWS_PARTITIONS as readonly string[]).includes(partition)) {
+    throw new Error(`Invalid ARN '${arn}': unknown partition '${partition}'`);
+  }
+
+  const parsed: ParsedArn = {
+    partition: partition as AwsPartition,
+    service,
+    region,
+    accountId,
+    resource,
+  };
+
+  for (const [resourceType, format] of Object.entries(ARN_FORMATS) as [
+    ArnResourceType,
+    ArnFormat,
+  ][]) {
+    if (format.service !== service || !resource.startsWith(format.prefix)) continue;
+    const { resourceName, ...components } = parseResource(
+      resourceType,
+      resource.slice(format.prefix.length),
+    );
+    if (resourceName) {
+      Object.assign(parsed, { resourceType, resourceName }, components);
+    }
+    break;
+  }
+
+  return parsed;
+}
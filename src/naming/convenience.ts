@@ -5,7 +5,15 @@
  * Project-specific convenience classes live in separate files under ./projects.
  */
 
-import type { NamingConfig, TaggingOptions, ResourceNameOptions, StackNameOptions } from './types';
+import type {
+  NamingConfig,
+  TaggingOptions,
+  ResourceNameOptions,
+  StackNameOptions,
+  ExportNameOptions,
+  IAMNamingOptions,
+  S3NamingOptions,
+} from './types';
 import {
   generateStackName,
   generateExportName,
@@ -14,6 +22,12 @@ import {
   generateDomainName,
   generateIAMRoleName,
 } from './functions';
+import { generateArn, type ArnOptions, type ArnResourceType } from './arns';
+import {
+  DEFAULT_NAMING_TEMPLATES,
+  getNamingTemplateValues,
+  renderNamingTemplate,
+} from './templates';
 
 // Import tagging from tagging module - this creates a dependency on tagging utilities
 // but keeps the convenience class in the naming module for better organization
@@ -53,8 +67,8 @@ export class ResourceNaming {
   /**
    * Generate a CloudFormation export name
    */
-  exportName(resourceName: string): string {
-    return generateExportName(this.config, resourceName);
+  exportName(resourceName: string, options?: ExportNameOptions): string {
+    return generateExportName(this.config, resourceName, options);
   }
 
   /**
@@ -67,15 +81,19 @@ export class ResourceNaming {
   /**
    * Generate an IAM role name
    */
-  iamRoleName(roleName: string): string {
-    return generateIAMRoleName(this.config, roleName);
+  iamRoleName(roleName: string, options?: IAMNamingOptions): string {
+    return generateIAMRoleName(this.config, roleName, options);
   }
 
   /**
    * Generate an S3 bucket name with stable suffix for global uniqueness
    */
-  s3BucketName(purpose: string, includeStableSuffix = true): string {
-    return generateS3BucketName(this.config, { purpose, includeStableSuffix });
+  s3BucketName(
+    purpose: string,
+    includeStableSuffix = true,
+    options: Pick<S3NamingOptions, 'includeShortRegion'> = {},
+  ): string {
+    return generateS3BucketName(this.config, { ...options, purpose, includeStableSuffix });
   }
 
   /**
@@ -93,6 +111,9 @@ export class ResourceNaming {
    * - With brand: /{company}/{project}/{brand}/{environment}/{category}/{name}
    * All segments are lowercase for consistency.
    *
+   * A `Parameter` template in the config replaces the pattern, with {name} standing for
+   * `{category}/{name}`.
+   *
    * @param category - Logical grouping (e.g., 'frontend', 'api', 'webapp')
    * @param name - Parameter name (e.g., 'alb-dns', 'bucket-name')
    * @param options - Optional brand for brand-scoped resources
@@ -116,14 +137,30 @@ export class ResourceNaming {
         'Company is required for SSM parameter naming. Ensure company is set in naming config.',
       );
     }
-    const company = this.config.company.toLowerCase();
-    const project = this.config.project.toLowerCase();
     const environment = this.config.environment.toLowerCase();
     const brand = options?.brand || this.config.brand;
-    if (brand) {
-      return `/${company}/${project}/${brand.toLowerCase()}/${environment}/${category}/${name}`;
-    }
-    return `/${company}/${project}/${environment}/${category}/${name}`;
+    const values = getNamingTemplateValues(this.config, `${category}/${name}`, {
+      company: this.config.company.toLowerCase(),
+      project: this.config.project.toLowerCase(),
+      environment,
+      env: environment,
+      brand: brand ? brand.toLowerCase() : '',
+    });
+    return renderNamingTemplate(
+      this.config.templates?.Parameter ?? DEFAULT_NAMING_TEMPLATES.Parameter,
+      values,
+    );
+  }
+
+  /**
+   * Build the ARN of a resource in the configured account and region
+   *
+   * @example
+   * naming.arn('Function', naming.resourceName('api', { resourceType: 'Function' }))
+   * // Returns: 'arn:aws:lambda:us-east-1:123456789012:function:myapp-prod-api'
+   */
+  arn(resourceType: ArnResourceType, name: string, options?: ArnOptions): string {
+    return generateArn(resourceType, this.config, name, options);
   }
 
   /**
@@ -7,11 +7,32 @@ import type {
   NamingConfig,
   ResourceType,
   IAMNamingOptions,
+  ExportNameOptions,
+  LengthHandling,
   S3NamingOptions,
   ResourceNameOptions,
   StackNameOptions,
+  NamingCasing,
+  NamingTemplate,
+  ParsedName,
+  ParseNameResult,
 } from './types';
-import { validateEnvironment, getEnvironmentDisplayName } from '../constants/environments';
+import {
+  ENV_DISPLAY_NAMES,
+  getEnvironmentDisplayName,
+  isValidEnvironment,
+  validateEnvironment,
+} from '../constants/environments';
+import { getRegionFromShortCode, getRegionShortCode } from '../constants/regions';
+import {
+  DEFAULT_NAMING_TEMPLATES,
+  getNamingTemplateValues,
+  matchNamingTemplate,
+  parseNamingTemplate,
+  renderNamingTemplate,
+  type NamingPlaceholder,
+  type NamingTemplateValues,
+} from './templates';
 
 /**
  * Default company name used when not specified in config
@@ -30,6 +51,56 @@ function validateNamingConfig(config: NamingConfig): void {
   }
 }
 
+/**
+ * Renders the naming template of a resource type, falling back to the default pattern
+ * @param config - Naming configuration (templates and placeholder values)
+ * @param resourceType - Resource type whose template to use
+ * @param fallback - Pattern used when the config has no template for the type
+ * @param name - Value of {name}
+ * @param options - Casing of the values when the template does not set one, placeholder
+ * values that replace the ones derived from the config and whether default patterns
+ * include the short region
+ */
+function renderName(
+  config: NamingConfig,
+  resourceType: ResourceType | undefined,
+  fallback: string,
+  name: string,
+  options: { casing: NamingCasing; overrides?: NamingTemplateValues; includeShortRegion?: boolean },
+): string {
+  const template = resourceType ? config.templates?.[resourceType] : undefined;
+  const region = config.region;
+  if (options.includeShortRegion && !region) {
+    throw new Error(
+      `Region is required in the naming config to include the short region in ${resourceType ?? 'resource'} names`,
+    );
+  }
+  if (options.includeShortRegion && template) {
+    // Names without the region would collide across regions
+    const pattern = typeof template === 'string' ? template : template.pattern;
+    const placesRegion = parseNamingTemplate(pattern).some(
+      (part) =>
+        'placeholder' in part &&
+        (part.placeholder === 'shortRegion' || part.placeholder === 'region'),
+    );
+    if (!placesRegion) {
+      throw new Error(
+        `Naming template '${pattern}' of ${resourceType} has no {shortRegion} or {region} placeholder, so includeShortRegion cannot be applied; add {shortRegion} to the template`,
+      );
+    }
+  }
+
+  const values = getNamingTemplateValues(config, name, {
+    company: config.company || DEFAULT_COMPANY,
+    // Templates from the config place {shortRegion} themselves
+    ...(template
+      ? {}
+      : { shortRegion: options.includeShortRegion && region ? getRegionShortCode(region) : '' }),
+    ...options.overrides,
+  });
+  return renderNamingTemplate(template || fallback, values, options.casing);
+}
+
 /**
  * Generates a stable hash from input string for deterministic naming
  * @param input - The input string to hash
@@ -40,6 +111,47 @@ function stableHash(input: string, len = 8): string {
   return crypto.createHash('sha256').update(input).digest('hex').slice(0, len);
 }
 
+/**
+ * Fits a name into a maximum length
+ * @param name - The sanitized name
+ * @param maxLength - Maximum length of the result
+ * @param lengthHandling - Strategy for names that are too long
+ * @param description - What the name is for, used in error messages (e.g. 'IAM role')
+ * @returns The name itself when it fits; otherwise the truncated name, optionally followed
+ * by a hyphen and an 8-character stable hash of the full name
+ */
+function fitToLength(
+  name: string,
+  maxLength: number,
+  lengthHandling: LengthHandling,
+  description: string,
+): string {
+  if (name.length <= maxLength) {
+    return name;
+  }
+
+  switch (lengthHandling) {
+    case 'error':
+      throw new Error(
+        `Generated ${description} name '${name}' exceeds maximum length of ${maxLength} characters`,
+      );
+
+    case 'truncate':
+      return name.slice(0, maxLength);
+
+    case 'hash':
+    default: {
+      // Truncate and append hash for uniqueness
+      const hashLength = 8;
+      const maxBaseLength = maxLength - hashLength - 1; // -1 for hyphen
+      if (maxBaseLength < 1) {
+        throw new Error(`maxLength ${maxLength} is too small to accommodate hash suffix`);
+      }
+      return `${name.slice(0, maxBaseLength)}-${stableHash(name, hashLength)}`;
+    }
+  }
+}
+
 /**
  * Sanitizes a string to be DNS-compliant for AWS resources
  * @param s - The string to sanitize
@@ -61,83 +173,241 @@ function sanitizeDnsLabel(s: string, max = 63): string {
   return trimmed || 'x';
 }
 
+/**
+ * Naming rules of an AWS resource type
+ */
+interface ResourceConstraint {
+  /** Maximum name length (including `prefix`) */
+  maxLength: number;
+  /** Pattern a valid name matches */
+  allowedChars: RegExp;
+  /** Characters replaced with hyphens during sanitization */
+  invalidChars: RegExp;
+  /** Whether the service only accepts lowercase names */
+  lowercase?: boolean;
+  /** Rule for the first character (after `prefix`), e.g. DB identifiers start with a letter */
+  firstChar?: { pattern: RegExp; description: string };
+  /** Prefixes the service reserves (compared case-insensitively) */
+  reservedPrefixes?: string[];
+  /** Prefix the service requires, added after sanitization */
+  prefix?: string;
+}
+
+const ALPHANUMERIC_HYPHEN = /[^a-zA-Z0-9-]/g;
+
 /**
  * Resource-specific naming constraints for AWS services
  */
-const RESOURCE_CONSTRAINTS: Record<ResourceType, { maxLength: number; allowedChars: RegExp }> = {
-  Stack: { maxLength: 128, allowedChars: /^[a-zA-Z0-9-]+$/ },
-  Bucket: { maxLength: 63, allowedChars: /^[a-z0-9.-]+$/ },
-  Distribution: { maxLength: 128, allowedChars: /^[a-zA-Z0-9-]+$/ },
-  Function: { maxLength: 64, allowedChars: /^[a-zA-Z0-9-_]+$/ },
-  Role: { maxLength: 64, allowedChars: /^[a-zA-Z0-9+=,.@_-]+$/ },
-  Export: { maxLength: 255, allowedChars: /^[a-zA-Z0-9-]+$/ },
-  Domain: { maxLength: 253, allowedChars: /^[a-z0-9.-]+$/ },
-  HostedZone: { maxLength: 253, allowedChars: /^[a-z0-9.-]+$/ },
-  Certificate: { maxLength: 128, allowedChars: /^[a-zA-Z0-9-]+$/ },
-  Table: { maxLength: 255, allowedChars: /^[a-zA-Z0-9_.-]+$/ },
-  Queue: { maxLength: 80, allowedChars: /^[a-zA-Z0-9_-]+$/ },
-  Topic: { maxLength: 256, allowedChars: /^[a-zA-Z0-9_-]+$/ },
-  LogGroup: { maxLength: 512, allowedChars: /^[a-zA-Z0-9_/.-]+$/ },
-  Layer: { maxLength: 140, allowedChars: /^[a-zA-Z0-9-_]+$/ },
+const RESOURCE_CONSTRAINTS: Record<ResourceType, ResourceConstraint> = {
+  Stack: { maxLength: 128, allowedChars: /^[a-zA-Z0-9-]+$/, invalidChars: ALPHANUMERIC_HYPHEN },
+  Bucket: {
+    maxLength: 63,
+    allowedChars: /^[a-z0-9.-]+$/,
+    invalidChars: /[^a-z0-9.-]/g,
+    lowercase: true,
+  },
+  Distribution: {
+    maxLength: 128,
+    allowedChars: /^[a-zA-Z0-9-]+$/,
+    invalidChars: ALPHANUMERIC_HYPHEN,
+  },
+  Function: { maxLength: 64, allowedChars: /^[a-zA-Z0-9-_]+$/, invalidChars: /[^a-zA-Z0-9-_]/g },
+  Role: {
+    maxLength: 64,
+    allowedChars: /^[a-zA-Z0-9+=,.@_-]+$/,
+    invalidChars: /[^a-zA-Z0-9+=,.@_-]/g,
+  },
+  Export: { maxLength: 255, allowedChars: /^[a-zA-Z0-9-]+$/, invalidChars: ALPHANUMERIC_HYPHEN },
+  Domain: {
+    maxLength: 253,
+    allowedChars: /^[a-z0-9.-]+$/,
+    invalidChars: /[^a-z0-9.-]/g,
+    lowercase: true,
+  },
+  HostedZone: {
+    maxLength: 253,
+    allowedChars: /^[a-z0-9.-]+$/,
+    invalidChars: /[^a-z0-9.-]/g,
+    lowercase: true,
+  },
+  Certificate: {
+    maxLength: 128,
+    allowedChars: /^[a-zA-Z0-9-]+$/,
+    invalidChars: ALPHANUMERIC_HYPHEN,
+  },
+  Table: { maxLength: 255, allowedChars: /^[a-zA-Z0-9_.-]+$/, invalidChars: /[^a-zA-Z0-9_.-]/g },
+  Queue: { maxLength: 80, allowedChars: /^[a-zA-Z0-9_-]+$/, invalidChars: /[^a-zA-Z0-9_-]/g },
+  Topic: { maxLength: 256, allowedChars: /^[a-zA-Z0-9_-]+$/, invalidChars: /[^a-zA-Z0-9_-]/g },
+  LogGroup: {
+    maxLength: 512,
+    allowedChars: /^[a-zA-Z0-9_/.-]+$/,
+    invalidChars: /[^a-zA-Z0-9_/.-]/g,
+  },
+  Layer: { maxLength: 140, allowedChars: /^[a-zA-Z0-9-_]+$/, invalidChars: /[^a-zA-Z0-9-_]/g },
+  // ECR: lowercase path components separated by `/`, each starting with a letter or number
+  EcrRepository: {
+    maxLength: 256,
+    allowedChars: /^[a-z0-9]+(?:[._-][a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-][a-z0-9]+)*)*$/,
+    invalidChars: /[^a-z0-9._/-]/g,
+    lowercase: true,
+    firstChar: { pattern: /[a-z0-9]/, description: 'a letter or number' },
+  },
+  Secret: {
+    maxLength: 512,
+    allowedChars: /^[a-zA-Z0-9/_+=.@-]+$/,
+    invalidChars: /[^a-zA-Z0-9/_+=.@-]/g,
+  },
+  // SSM: 1011 characters for the fully qualified name; `aws` and `ssm` are reserved
+  Parameter: {
+    maxLength: 1011,
+    allowedChars: /^[a-zA-Z0-9_./-]+$/,
+    invalidChars: /[^a-zA-Z0-9_./-]/g,
+    reservedPrefixes: ['aws', 'ssm', '/aws', '/ssm'],
+  },
+  EventBus: {
+    maxLength: 256,
+    allowedChars: /^[a-zA-Z0-9/._-]+$/,
+    invalidChars: /[^a-zA-Z0-9/._-]/g,
+  },
+  EventRule: { maxLength: 64, allowedChars: /^[a-zA-Z0-9._-]+$/, invalidChars: /[^a-zA-Z0-9._-]/g },
+  EcsCluster: {
+    maxLength: 255,
+    allowedChars: /^[a-zA-Z0-9_-]+$/,
+    invalidChars: /[^a-zA-Z0-9_-]/g,
+  },
+  EcsService: {
+    maxLength: 255,
+    allowedChars: /^[a-zA-Z0-9_-]+$/,
+    invalidChars: /[^a-zA-Z0-9_-]/g,
+  },
+  // ALB and target groups: alphanumerics and hyphens, not starting or ending with a hyphen
+  LoadBalancer: {
+    maxLength: 32,
+    allowedChars: /^[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?$/,
+    invalidChars: ALPHANUMERIC_HYPHEN,
+    firstChar: { pattern: /[a-zA-Z0-9]/, description: 'a letter or number' },
+    reservedPrefixes: ['internal-'],
+  },
+  TargetGroup: {
+    maxLength: 32,
+    allowedChars: /^[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?$/,
+    invalidChars: ALPHANUMERIC_HYPHEN,
+    firstChar: { pattern: /[a-zA-Z0-9]/, description: 'a letter or number' },
+  },
+  // KMS: 256 characters including the `alias/` prefix; `alias/aws/` is reserved for AWS keys
+  KmsAlias: {
+    maxLength: 256,
+    allowedChars: /^alias\/[a-zA-Z0-9/_-]+$/,
+    invalidChars: /[^a-zA-Z0-9/_-]/g,
+    reservedPrefixes: ['alias/aws/'],
+    prefix: 'alias/',
+  },
+  // Aurora cluster identifiers: lowercase, start with a letter, no consecutive hyphens
+  DbCluster: {
+    maxLength: 63,
+    allowedChars: /^[a-z](?:-?[a-z0-9])*$/,
+    invalidChars: /[^a-z0-9-]/g,
+    lowercase: true,
+    firstChar: { pattern: /[a-z]/, description: 'a letter' },
+  },
+  SecurityGroup: {
+    maxLength: 255,
+    allowedChars: /^[a-zA-Z0-9 ._:/()#,@[\]+=&;{}!$*-]+$/,
+    invalidChars: /[^a-zA-Z0-9 ._:/()#,@[\]+=&;{}!$*-]/g,
+    reservedPrefixes: ['sg-'],
+  },
+  UserPool: { maxLength: 128, allowedChars: /^[\w\s+=,.@-]+$/, invalidChars: /[^\w\s+=,.@-]/g },
+  IdentityPool: {
+    maxLength: 128,
+    allowedChars: /^[\w\s+=,.@-]+$/,
+    invalidChars: /[^\w\s+=,.@-]/g,
+  },
+  StateMachine: {
+    maxLength: 80,
+    allowedChars: /^[a-zA-Z0-9_-]+$/,
+    invalidChars: /[^a-zA-Z0-9_-]/g,
+  },
 };
 
 /**
  * Sanitizes a resource name based on resource type constraints
  * @param name - The name to sanitize
  * @param resourceType - The AWS resource type
+ * @param options - Maximum length (capped at the AWS limit) and length handling
  * @returns Sanitized name that complies with AWS service limits
  */
-function sanitizeResourceName(name: string, resourceType?: ResourceType): string {
-  if (!resourceType) {
-    // Default sanitization for unknown resource types
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-');
-  }
-
-  const constraints = RESOURCE_CONSTRAINTS[resourceType];
+function sanitizeResourceName(
+  name: string,
+  resourceType?: ResourceType,
+  options: { maxLength?: number; lengthHandling?: LengthHandling } = {},
+): string {
+  const constraints = resourceType ? RESOURCE_CONSTRAINTS[resourceType] : undefined;
   if (!constraints) {
+    // Default sanitization for unknown resource types
     return name
       .toLowerCase()
       .replace(/[^a-z0-9-]/g, '-')
       .replace(/-+/g, '-');
   }
 
-  let sanitized = name;
-
   // Apply resource-specific character restrictions
-  if (resourceType === 'Bucket' || resourceType === 'Domain' || resourceType === 'HostedZone') {
-    sanitized = sanitized.toLowerCase().replace(/[^a-z0-9.-]/g, '-');
-  } else if (resourceType === 'Function' || resourceType === 'Layer') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9-_]/g, '-');
-  } else if (resourceType === 'Role') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9+=,.@_-]/g, '-');
-  } else if (resourceType === 'Queue') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9_-]/g, '-');
-  } else if (resourceType === 'Topic') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9_-]/g, '-');
-  } else if (resourceType === 'Table') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9_.-]/g, '-');
-  } else if (resourceType === 'LogGroup') {
-    sanitized = sanitized.replace(/[^a-zA-Z0-9_/.-]/g, '-');
-  } else {
-    // Default for Stack, Distribution, Export, Certificate
-    sanitized = sanitized.replace(/[^a-zA-Z0-9-]/g, '-');
-  }
+  let sanitized = (constraints.lowercase ? name.toLowerCase() : name).replace(
+    constraints.invalidChars,
+    '-',
+  );
 
   // Remove consecutive hyphens/underscores
   sanitized = sanitized.replace(/[-_]+/g, '-');
 
-  // Trim to max length
-  if (sanitized.length > constraints.maxLength) {
-    sanitized = sanitized.slice(0, constraints.maxLength);
-  }
+  // Fit to max length, leaving room for the required prefix
+  const maxLength =
+    Math.min(options.maxLength ?? constraints.maxLength, constraints.maxLength) -
+    (constraints.prefix?.length ?? 0);
+  sanitized = fitToLength(
+    sanitized,
+    maxLength,
+    options.lengthHandling ?? 'truncate',
+    resourceType as string,
+  );
+
+  // Ensure it doesn't end with invalid characters or join the hash with a double hyphen
+  sanitized = sanitized.replace(/-+/g, '-').replace(/[-_.]+$/, '');
+
+  return `${constraints.prefix ?? ''}${sanitized || 'default'}`;
+}
 
-  // Ensure it doesn't end with invalid characters
-  sanitized = sanitized.replace(/[-_.]+$/, '');
+/**
+ * Validates a generated name against the constraints of its resource type
+ * @throws Error describing the first rule the name breaks
+ */
+function validateResourceName(name: string, resourceType: ResourceType): void {
+  const constraints = RESOURCE_CONSTRAINTS[resourceType];
+  if (!constraints) return;
 
-  return sanitized || 'default';
+  if (name.length > constraints.maxLength) {
+    throw new Error(
+      `Generated ${resourceType} name '${name}' exceeds maximum length of ${constraints.maxLength} characters`,
+    );
+  }
+  const unprefixed = name.slice(constraints.prefix?.length ?? 0);
+  if (constraints.firstChar && !constraints.firstChar.pattern.test(unprefixed.charAt(0))) {
+    throw new Error(
+      `Generated ${resourceType} name '${name}' must start with ${constraints.firstChar.description}`,
+    );
+  }
+  const reserved = constraints.reservedPrefixes?.find((prefix) =>
+    name.toLowerCase().startsWith(prefix),
+  );
+  if (reserved) {
+    throw new Error(
+      `Generated ${resourceType} name '${name}' cannot start with the reserved prefix '${reserved}'`,
+    );
+  }
+  if (!constraints.allowedChars.test(name)) {
+    throw new Error(
+      `Generated ${resourceType} name '${name}' contains invalid characters for this resource type`,
+    );
+  }
 }
 
 /**
@@ -145,6 +415,8 @@ function sanitizeResourceName(name: string, resourceType?: ResourceType): string
  *
  * Default pattern: {Company}-{Project}-{DisplayEnvironment}-{Component}-Stack
  * With skipEnvironment: {Company}-{Project}-{Component}-Stack
+ * A `Stack` template in the config replaces the pattern ({name} is the component);
+ * skipEnvironment leaves out its environment placeholders.
  *
  * Uses display names like 'NonProd', 'Prod', 'Management', 'Shared', 'PreProd'
  * Component names must be PascalCase (enforced at the orchestrator level)
@@ -169,37 +441,53 @@ export function generateStackName(
 ): string {
   validateNamingConfig(config);
 
-  const company = config.company || DEFAULT_COMPANY;
-
-  if (options?.skipEnvironment) {
-    // Pattern for single-account repos: {Company}-{Project}-{Component}-Stack
-    return `${company}-${config.project}-${component}-Stack`;
-  }
-
-  // Default pattern: {Company}-{Project}-{DisplayEnvironment}-{Component}-Stack
-  const displayEnv = getEnvironmentDisplayName(config.environment);
-  return `${company}-${config.project}-${displayEnv}-${component}-Stack`;
+  // Single-account repos leave out the environment: {Company}-{Project}-{Component}-Stack
+  const overrides = options?.skipEnvironment ? { environment: '', env: '', envName: '' } : {};
+  return renderName(config, 'Stack', DEFAULT_NAMING_TEMPLATES.Stack, component, {
+    casing: 'preserve',
+    overrides,
+    includeShortRegion: options?.includeShortRegion,
+  });
 }
 
 /**
  * Generates a standardized CloudFormation export name
- * Pattern: {Project}-{Environment}-{ResourceName}
+ * Pattern: {Project}-{Environment}-{ResourceName} (or the `Export` template of the config)
  */
-export function generateExportName(config: NamingConfig, resourceName: string): string {
+export function generateExportName(
+  config: NamingConfig,
+  resourceName: string,
+  options?: ExportNameOptions,
+): string {
   validateNamingConfig(config);
 
   if (!resourceName) {
     throw new Error('Resource name is required for export naming');
   }
 
-  return `${config.project}-${config.environment}-${resourceName}`;
+  return renderName(config, 'Export', DEFAULT_NAMING_TEMPLATES.Export, resourceName, {
+    casing: 'preserve',
+    includeShortRegion: options?.includeShortRegion,
+  });
 }
 
 /**
  * Generates a standardized resource name with resource-type aware constraints
- * Pattern: {project}-{environment}-{resourceName}
+ * Pattern: {project}-{environment}[-{brand}]-{resourceName} (or the template of the resource
+ * type in the config)
+ *
+ * Applies AWS service-specific naming rules and length limits based on resource type.
+ * Names that are too long are truncated by default; use `lengthHandling: 'hash'` to
+ * append a stable hash of the full name so that truncated names stay unique.
  *
- * Applies AWS service-specific naming rules and length limits based on resource type
+ * @example
+ * // With project: 'Shop', environment: 'nprd'
+ * generateResourceName(config, 'customer-portal-api', {
+ *   resourceType: 'LoadBalancer',
+ *   brand: 'acmebrand',
+ *   lengthHandling: 'hash',
+ * })
+ * // Returns: 'shop-nprd-acmebrand-cus-b9c233cf' (32 characters)
  */
 export function generateResourceName(
   config: NamingConfig,
@@ -212,41 +500,35 @@ export function generateResourceName(
     throw new Error('Resource name is required');
   }
 
-  const project = config.project.toLowerCase();
-  const environment = config.environment.toLowerCase();
-  const normalizedResourceName = resourceName.toLowerCase();
-
   let resourceType: ResourceType | undefined;
   let brand: string | undefined;
+  let includeShortRegion: boolean | undefined;
+  let lengthOptions: Pick<ResourceNameOptions, 'maxLength' | 'lengthHandling'> = {};
 
   if (typeof resourceTypeOrOptions === 'string') {
     resourceType = resourceTypeOrOptions;
   } else if (resourceTypeOrOptions) {
     resourceType = resourceTypeOrOptions.resourceType;
     brand = resourceTypeOrOptions.brand || config.brand;
+    includeShortRegion = resourceTypeOrOptions.includeShortRegion;
+    lengthOptions = resourceTypeOrOptions;
   }
 
   // Build the base name
-  const baseName = brand
-    ? `${project}-${environment}-${brand.toLowerCase()}-${normalizedResourceName}`
-    : `${project}-${environment}-${normalizedResourceName}`;
+  const baseName = renderName(
+    config,
+    resourceType,
+    DEFAULT_NAMING_TEMPLATES.Resource,
+    resourceName,
+    { casing: 'lower', overrides: { brand: brand ?? '' }, includeShortRegion },
+  );
 
   // Apply resource-type specific sanitization and constraints
-  const sanitizedName = sanitizeResourceName(baseName, resourceType);
+  const sanitizedName = sanitizeResourceName(baseName, resourceType, lengthOptions);
 
   // Validate the final name meets resource constraints
-  if (resourceType && RESOURCE_CONSTRAINTS[resourceType]) {
-    const constraints = RESOURCE_CONSTRAINTS[resourceType];
-    if (sanitizedName.length > constraints.maxLength) {
-      throw new Error(
-        `Generated ${resourceType} name '${sanitizedName}' exceeds maximum length of ${constraints.maxLength} characters`,
-      );
-    }
-    if (!constraints.allowedChars.test(sanitizedName)) {
-      throw new Error(
-        `Generated ${resourceType} name '${sanitizedName}' contains invalid characters for this resource type`,
-      );
-    }
+  if (resourceType) {
+    validateResourceName(sanitizedName, resourceType);
   }
 
   return sanitizedName;
@@ -254,7 +536,7 @@ export function generateResourceName(
 
 /**
  * Generates a standardized IAM role name with intelligent length handling
- * Pattern: {Project}-{Environment}-{RoleName}
+ * Pattern: {Project}-{Environment}-{RoleName} (or the `Role` template of the config)
  *
  * IAM role names must be 1-64 characters and can contain alphanumeric characters
  * plus these special characters: +=,.@_-
@@ -275,15 +557,15 @@ export function generateIAMRoleName(
     throw new Error('Role name is required for IAM role naming');
   }
 
-  const project = config.project.toLowerCase();
-  const environment = config.environment.toLowerCase();
-  const normalizedRoleName = roleName.toLowerCase();
   const prefix = options.prefix ? options.prefix.toLowerCase() : undefined;
 
   const maxLength = options.maxLength ?? 64;
   const lengthHandling = options.lengthHandling ?? 'hash';
 
-  let name = `${project}-${environment}-${normalizedRoleName}`;
+  let name = renderName(config, 'Role', DEFAULT_NAMING_TEMPLATES.Role, roleName, {
+    casing: 'lower',
+    includeShortRegion: options.includeShortRegion,
+  });
 
   if (prefix) {
     name = `${prefix}-${name}`;
@@ -301,32 +583,7 @@ export function generateIAMRoleName(
   let sanitizedName = name.replace(/[^a-zA-Z0-9+=,.@_-]/g, '-').replace(/[-_]+/g, '-');
 
   // Handle length constraints BEFORE final sanitization
-  if (sanitizedName.length > maxLength) {
-    switch (lengthHandling) {
-      case 'error':
-        throw new Error(
-          `Generated IAM role name '${sanitizedName}' exceeds maximum length of ${maxLength} characters`,
-        );
-
-      case 'truncate':
-        sanitizedName = sanitizedName.slice(0, maxLength);
-        break;
-
-      case 'hash':
-      default: {
-        // Truncate and append hash for uniqueness
-        const hashLength = 8;
-        const maxBaseLength = maxLength - hashLength - 1; // -1 for hyphen
-        if (maxBaseLength < 1) {
-          throw new Error(`maxLength ${maxLength} is too small to accommodate hash suffix`);
-        }
-        const baseName = sanitizedName.slice(0, maxBaseLength);
-        const hash = stableHash(sanitizedName, hashLength);
-        sanitizedName = `${baseName}-${hash}`;
-        break;
-      }
-    }
-  }
+  sanitizedName = fitToLength(sanitizedName, maxLength, lengthHandling, 'IAM role');
 
   // Final sanitization to ensure valid characters and no trailing invalid chars
   sanitizedName = sanitizedName.replace(/[-_.]+$/, '');
@@ -346,7 +603,8 @@ export function generateIAMRoleName(
 
 /**
  * Generates a standardized S3 bucket name with DNS compliance and deterministic suffixes
- * Pattern: {project}-{environment}-{purpose}[-{stable-suffix}]
+ * Pattern: {project}-{environment}-{purpose}[-{stable-suffix}] (the `Bucket` template of the
+ * config replaces the part before the suffix)
  *
  * S3 bucket names must:
  * - Be 3-63 characters long
@@ -361,11 +619,12 @@ export function generateS3BucketName(config: NamingConfig, options: S3NamingOpti
     throw new Error('Purpose is required for S3 bucket naming');
   }
 
-  const project = config.project.toLowerCase();
-  const environment = config.environment.toLowerCase();
   const purpose = options.purpose.toLowerCase();
 
-  const base = `${project}-${environment}-${purpose}`;
+  const base = renderName(config, 'Bucket', DEFAULT_NAMING_TEMPLATES.Bucket, purpose, {
+    casing: 'lower',
+    includeShortRegion: options.includeShortRegion,
+  });
   let name = sanitizeDnsLabel(base, 57); // Leave room for hyphen + suffix
 
   // Determine if we should include a suffix (default: true for global uniqueness)
@@ -394,6 +653,7 @@ export function generateS3BucketName(config: NamingConfig, options: S3NamingOpti
 
 /**
  * Generates a standardized domain name for hosted zones
+ * Pattern: {subdomain}.{baseDomain} (the `Domain` template of the config shapes the subdomain)
  */
 export function generateDomainName(
   config: NamingConfig,
@@ -409,7 +669,10 @@ export function generateDomainName(
   const normalizedBase = baseDomain.toLowerCase();
 
   if (subdomain) {
-    return `${subdomain.toLowerCase()}.${normalizedBase}`;
+    const label = renderName(config, 'Domain', DEFAULT_NAMING_TEMPLATES.Domain, subdomain, {
+      casing: 'lower',
+    });
+    return `${label.toLowerCase()}.${normalizedBase}`;
   }
 
   return normalizedBase;
@@ -446,3 +709,159 @@ export function generateStageName(project: string, environment: string): string
 
   return `${project.trim()}-${validatedEnv}`;
 }
+
+/**
+ * Placeholder values a naming config pins down when parsing names
+ */
+function knownTemplateValues(config?: Partial<NamingConfig>): NamingTemplateValues {
+  if (!config) {
+    return {};
+  }
+
+  const environment = config.environment;
+  return {
+    company: config.company || DEFAULT_COMPANY,
+    project: config.project,
+    environment,
+    env: environment,
+    envName:
+      environment && isValidEnvironment(environment)
+        ? getEnvironmentDisplayName(environment)
+        : undefined,
+    brand: config.brand,
+    region: config.region,
+    shortRegion: config.region ? getRegionShortCode(config.region) : undefined,
+    accountId: config.accountId,
+  };
+}
+
+/**
+ * Parses a generated resource name back into its naming components
+ *
+ * The name is matched against the pattern the generators use for the resource type (the
+ * template in the config, or the default pattern): `Stack` for {@link generateStackName},
+ * `Export`, `Role` (without prefix or account/region suffixes), `Bucket` (with or without
+ * the stable suffix), `Domain` (the first label), `Parameter` (SSM parameter paths of
+ * `ResourceNaming.ssmParameterName`) and {@link generateResourceName} for the other types.
+ *
+ * Without a config, project, company and brand must be single segments and the
+ * environment one of the standard environments; a segment between the environment (or the
+ * short region) and the resource name is read as the brand. Short regions are mapped back
+ * to the region. Pass the config of the manifest to recognize
+ * hyphenated or custom values. Names shortened by length handling cannot be parsed back.
+ *
+ * Regenerating the name from the parsed components gives the same name.
+ *
+ * @param name - Name to parse
+ * @param resourceType - Resource type of the name
+ * @param config - Naming configuration the name may have been generated with
+ * @returns The components, or `matched: false` with a reason for names from elsewhere
+ *
+ * @example
+ * parseResourceName('saas-nprd-savvue-api', 'Function')
+ * // Returns: { matched: true, resourceType: 'Function', project: 'saas', environment: 'nprd',
+ * //   brand: 'savvue', component: 'api' }
+ */
+export function parseResourceName(
+  name: string,
+  resourceType: ResourceType,
+  config?: Partial<NamingConfig>,
+): ParseNameResult {
+  const templates = config?.templates;
+  const candidates: string[] = [name];
+  let template: string | NamingTemplate;
+  let optional: NamingPlaceholder[] = [];
+
+  switch (resourceType) {
+    case 'Stack':
+      template = templates?.Stack ?? DEFAULT_NAMING_TEMPLATES.Stack;
+      optional = ['environment', 'env', 'envName'];
+      break;
+    case 'Export':
+    case 'Role':
+    case 'Bucket':
+      template = templates?.[resourceType] ?? DEFAULT_NAMING_TEMPLATES[resourceType];
+      if (resourceType === 'Bucket' && /-[0-9a-f]{6}$/.test(name)) {
+        candidates.unshift(name.slice(0, -7));
+      }
+      break;
+    case 'Domain':
+      template = templates?.Domain ?? DEFAULT_NAMING_TEMPLATES.Domain;
+      candidates[0] = name.split('.')[0];
+      break;
+    case 'Parameter':
+      template = templates?.Parameter ?? DEFAULT_NAMING_TEMPLATES.Parameter;
+      optional = ['brand'];
+      break;
+    default: {
+      template = templates?.[resourceType] ?? DEFAULT_NAMING_TEMPLATES.Resource;
+      optional = ['brand'];
+      if (resourceType === 'KmsAlias') {
+        if (!name.startsWith('alias/')) {
+          return {
+            matched: false,
+            resourceType,
+            reason: `KMS alias '${name}' must start with 'alias/'`,
+          };
+        }
+        candidates[0] = name.slice('alias/'.length);
+      }
+    }
+  }
+
+  // Default patterns include the short region only when the generator was asked to
+  const defaultTemplates: readonly unknown[] = Object.values(DEFAULT_NAMING_TEMPLATES);
+  if (defaultTemplates.includes(template)) {
+    optional = [...optional, 'shortRegion'];
+  }
+
+  const known = knownTemplateValues(config);
+  const values = candidates
+    .map((candidate) => matchNamingTemplate(template, candidate, known, optional))
+    .find((match) => match !== undefined);
+  if (!values) {
+    const pattern = typeof template === 'string' ? template : template.pattern;
+    return {
+      matched: false,
+      resourceType,
+      reason: `'${name}' does not match the ${resourceType} naming pattern '${pattern}'`,
+    };
+  }
+
+  // Stack names carry the display name of the environment (NonProd → nprd)
+  const displayName = values.envName?.toLowerCase();
+  const environment =
+    values.environment ||
+    values.env ||
+    Object.entries(ENV_DISPLAY_NAMES).find(
+      ([, display]) => display.toLowerCase() === displayName,
+    )?.[0];
+
+  const components: Omit<ParsedName, 'matched' | 'resourceType' | 'component'> = {
+    company: values.company,
+    project: values.project,
+    environment,
+    brand: values.brand,
+    region: values.region || (values.shortRegion && getRegionFromShortCode(values.shortRegion)),
+    shortRegion: values.shortRegion,
+    accountId: values.accountId,
+  };
+  return {
+    matched: true,
+    resourceType,
+    ...Object.fromEntries(Object.entries(components).filter(([, value]) => value)),
+    component: values.name ?? '',
+  };
+}
+
+/**
+ * Parses a stack name generated by {@link generateStackName}
+ *
+ * @example
+ * parseStackName('CodeIQLabs-SaaS-NonProd-VPC-Stack')
+ * // Returns: { matched: true, resourceType: 'Stack', company: 'CodeIQLabs', project: 'SaaS',
+ * //   environment: 'nprd', component: 'VPC' }
+ */
+export function parseStackName(name: string, config?: Partial<NamingConfig>): ParseNameResult {
+  return parseResourceName(name, 'Stack', config);
+}
@@ -2,6 +2,12 @@
 export * from './functions';
 export { generateStageName } from './functions';
 
+// Naming templates
+export * from './templates';
+
+// ARN builders and parser
+export * from './arns';
+
 // Convenience classes and utilities
 export * from './convenience';
 
@@ -16,8 +22,16 @@ export type {
   NamingInput,
   ExportNameOptions,
   IAMNamingOptions,
+  LengthHandling,
   S3NamingOptions,
   ResourceType,
+  NamingCasing,
+  NamingTemplate,
+  NamingTemplates,
+  ParsedName,
+  UnmatchedName,
+  ParseNameResult,
+  ResourceNameOptions,
   StackNameOptions,
   BaseParamOpts,
   StringParamOpts,
@@ -0,0 +1,281 @@
+/**
+ * Naming templates
+ *
+ * Generators build names from a pattern such as `{project}-{environment}-{name}`. The
+ * pattern of a resource type can be replaced through `NamingConfig.templates`, e.g. to keep
+ * an acquired product's `{company}-{name}-{env}` convention.
+ */
+
+import type { NamingCasing, NamingConfig, NamingTemplate } from './types';
+import {
+  ENV_DISPLAY_NAMES,
+  ENV_VALUES,
+  getEnvironmentDisplayName,
+} from '../constants/environments';
+import { getRegionShortCode, REGION_SHORT_CODES } from '../constants/regions';
+
+/**
+ * Placeholders supported in naming templates
+ */
+export const NAMING_PLACEHOLDERS = [
+  'company',
+  'project',
+  'environment',
+  'env',
+  'envName',
+  'brand',
+  'region',
+  'shortRegion',
+  'accountId',
+  'name',
+] as const;
+
+export type NamingPlaceholder = (typeof NAMING_PLACEHOLDERS)[number];
+
+/**
+ * Default naming patterns of the generators, used for resource types without a template
+ * in the config (`Resource` is the pattern of `generateResourceName`)
+ *
+ * {shortRegion} is left out unless the generator is asked to include the short region.
+ */
+export const DEFAULT_NAMING_TEMPLATES = {
+  Stack: '{company}-{project}-{envName}-{shortRegion}-{name}-Stack',
+  Export: '{project}-{environment}-{shortRegion}-{name}',
+  Resource: '{project}-{environment}-{shortRegion}-{brand}-{name}',
+  Role: '{project}-{environment}-{shortRegion}-{name}',
+  Bucket: '{project}-{environment}-{shortRegion}-{name}',
+  Domain: '{name}',
+  Parameter: '/{company}/{project}/{brand}/{environment}/{name}',
+} as const;
+
+/**
+ * Values substituted into a naming template
+ * An empty string leaves the placeholder out; `undefined` means the value is not configured.
+ */
+export type NamingTemplateValues = Partial<Record<NamingPlaceholder, string>>;
+
+const PLACEHOLDER_PATTERN = /(\{[^{}]*\})/;
+
+const SEPARATORS = '-_./ ';
+
+/**
+ * What a placeholder without a known value matches when parsing names
+ */
+const PLACEHOLDER_MATCHERS: Record<NamingPlaceholder, string> = {
+  company: '[^-_./ ]+',
+  project: '[^-_./ ]+',
+  environment: ENV_VALUES.join('|'),
+  env: ENV_VALUES.join('|'),
+  envName: Object.values(ENV_DISPLAY_NAMES).join('|'),
+  brand: '[^-_./ ]+',
+  region: '[a-z]{2}(?:-[a-z]+)+-\\d{1,2}',
+  shortRegion: Object.values(REGION_SHORT_CODES).join('|'),
+  accountId: '\\d{12}',
+  name: '.+',
+};
+
+/**
+ * Escape text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Apply a casing to a substituted value
+ */
+function applyCasing(value: string, casing: NamingCasing): string {
+  switch (casing) {
+    case 'lower':
+      return value.toLowerCase();
+    case 'upper':
+      return value.toUpperCase();
+    case 'pascal':
+      return value.replace(
+        /(^|[^a-zA-Z0-9])([a-z])/g,
+        (_, before: string, letter: string) => `${before}${letter.toUpperCase()}`,
+      );
+    case 'preserve':
+    default:
+      return value;
+  }
+}
+
+/**
+ * Split a template into literal text and placeholder names
+ * @throws Error if the template uses an unknown placeholder
+ */
+export function parseNamingTemplate(
+  pattern: string,
+): ({ literal: string } | { placeholder: NamingPlaceholder })[] {
+  return pattern
+    .split(PLACEHOLDER_PATTERN)
+    .filter((part) => part !== '')
+    .map((part) => {
+      if (!part.startsWith('{')) return { literal: part };
+      const placeholder = part.slice(1, -1);
+      if (!(NAMING_PLACEHOLDERS as readonly string[]).includes(placeholder)) {
+        throw new Error(
+          `Unknown placeholder ${part} in naming template '${pattern}'. Supported placeholders: ${NAMING_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}`,
+        );
+      }
+      return { placeholder: placeholder as NamingPlaceholder };
+    });
+}
+
+/**
+ * Render a naming template
+ * @param template - Pattern or template
+ * @param values - Values of the placeholders
+ * @param defaultCasing - Casing used when the template does not set one
+ * @returns The name with all placeholders substituted
+ * @throws Error if the template uses an unknown placeholder or one without a configured value
+ *
+ * @example
+ * ```typescript
+ * renderNamingTemplate(
+ *   { pattern: '{company}-{name}-{env}', casing: 'lower' },
+ *   { company: 'Acme', env: 'nprd', name: 'Orders' },
+ * );
+ * // Returns: 'acme-orders-nprd'
+ *
+ * renderNamingTemplate('{project}-{brand}-{name}', { project: 'shop', brand: '', name: 'api' });
+ * // Returns: 'shop-api'
+ * ```
+ */
+export function renderNamingTemplate(
+  template: string | NamingTemplate,
+  values: NamingTemplateValues,
+  defaultCasing: NamingCasing = 'preserve',
+): string {
+  const { pattern, casing = defaultCasing } =
+    typeof template === 'string' ? { pattern: template } : template;
+  const tokens = parseNamingTemplate(pattern);
+  const parts = tokens.map((part) => {
+    if ('literal' in part) return part.literal;
+    const value = values[part.placeholder];
+    if (value === undefined) {
+      throw new Error(
+        `Naming template '${pattern}' uses {${part.placeholder}}, which is not set in the naming config`,
+      );
+    }
+    return value === '' ? undefined : applyCasing(value, casing);
+  });
+
+  // Leave out empty placeholders together with one adjacent separator
+  const isLiteral = (index: number) => index >= 0 && 'literal' in (tokens[index] ?? {});
+  parts.forEach((part, index) => {
+    if (part !== undefined) return;
+    const before = parts[index - 1];
+    const after = parts[index + 1];
+    if (isLiteral(index - 1) && before && SEPARATORS.includes(before[before.length - 1])) {
+      parts[index - 1] = before.slice(0, -1);
+    } else if (isLiteral(index + 1) && after && SEPARATORS.includes(after[0])) {
+      parts[index + 1] = after.slice(1);
+    }
+  });
+
+  return parts.filter((part) => part !== undefined).join('');
+}
+
+/**
+ * Match a name against a naming template, the reverse of {@link renderNamingTemplate}
+ *
+ * Placeholders with a value in `known` must appear as that value (case-insensitively).
+ * Others match what the generators produce: environments match the known environment
+ * codes (or display names for {envName}), account IDs 12 digits, {name} any text and the
+ * remaining placeholders a single segment without separators. Names are compared
+ * case-insensitively.
+ *
+ * @param template - Pattern or template the name was rendered from
+ * @param name - Name to match
+ * @param known - Placeholder values that are known, e.g. from the naming config
+ * @param optional - Placeholders the generator may leave out (with one adjacent separator)
+ * @returns The text of every placeholder in the name (empty for left out placeholders), or
+ * undefined when the name does not match
+ *
+ * @example
+ * ```typescript
+ * matchNamingTemplate('{project}-{environment}-{brand}-{name}', 'saas-nprd-savvue-api', {}, [
+ *   'brand',
+ * ]);
+ * // Returns: { project: 'saas', environment: 'nprd', brand: 'savvue', name: 'api' }
+ * ```
+ */
+export function matchNamingTemplate(
+  template: string | NamingTemplate,
+  name: string,
+  known: NamingTemplateValues = {},
+  optional: readonly NamingPlaceholder[] = [],
+): NamingTemplateValues | undefined {
+  const pattern = typeof template === 'string' ? template : template.pattern;
+  const tokens = parseNamingTemplate(pattern);
+  const literals = tokens.map((token) => ('literal' in token ? token.literal : ''));
+  const placeholders: NamingPlaceholder[] = [];
+
+  const groups = tokens.map((token, index) => {
+    if ('literal' in token) return undefined;
+    placeholders.push(token.placeholder);
+    const value = known[token.placeholder];
+    const group = `(${value ? escapeRegExp(value) : PLACEHOLDER_MATCHERS[token.placeholder]})`;
+    if (!optional.includes(token.placeholder)) return group;
+
+    // Mirror renderNamingTemplate: an empty placeholder takes one adjacent separator along
+    const before = literals[index - 1];
+    const after = literals[index + 1];
+    if (before && SEPARATORS.includes(before[before.length - 1])) {
+      literals[index - 1] = before.slice(0, -1);
+      return `(?:${escapeRegExp(before[before.length - 1])}${group})?`;
+    }
+    if (after && SEPARATORS.includes(after[0])) {
+      literals[index + 1] = after.slice(1);
+      return `(?:${group}${escapeRegExp(after[0])})?`;
+    }
+    return `${group}?`;
+  });
+
+  const source = groups.map((group, index) => group ?? escapeRegExp(literals[index])).join('');
+  const match = new RegExp(`^${source}$`, 'i').exec(name);
+  if (!match) return undefined;
+
+  const values: NamingTemplateValues = {};
+  placeholders.forEach((placeholder, index) => {
+    values[placeholder] ??= match[index + 1] ?? '';
+  });
+  return values;
+}
+
+/**
+ * Get the placeholder values of a naming config
+ *
+ * {envName} and {shortRegion} are derived when a template uses them, so configs with a
+ * custom environment or without a region only fail for templates that need them.
+ *
+ * @param config - Naming configuration
+ * @param name - Value of {name}
+ * @param overrides - Values that replace the ones derived from the config
+ * @returns Values for {@link renderNamingTemplate}
+ */
+export function getNamingTemplateValues(
+  config: NamingConfig,
+  name: string,
+  overrides: NamingTemplateValues = {},
+): NamingTemplateValues {
+  return {
+    company: config.company,
+    project: config.project,
+    environment: config.environment,
+    env: config.environment,
+    get envName() {
+      return getEnvironmentDisplayName(config.environment);
+    },
+    brand: config.brand ?? '',
+    region: config.region,
+    get shortRegion() {
+      return config.region ? getRegionShortCode(config.region) : undefined;
+    },
+    accountId: config.accountId,
+    name,
+    ...overrides,
+  };
+}
@@ -14,10 +14,12 @@ export type CompanyName = string;
  * Core naming configuration interface
  * Used across all CodeIQLabs projects for consistent resource naming
  *
- * Stack naming pattern (hardcoded in library):
+ * Default stack naming pattern:
  * {company}-{project}-{environment}-{component}-Stack
  *
  * Example: CodeIQLabs-SaaS-NonProd-VPC-Stack
+ *
+ * `templates` replaces the default pattern of individual resource types.
  */
 export interface NamingConfig {
   /** Company prefix for stack names (e.g., "CodeIQLabs") */
@@ -30,6 +32,14 @@ export interface NamingConfig {
   brand?: string;
   region?: string;
   accountId?: string;
+  /**
+   * Naming templates per resource type, replacing the default patterns
+   *
+   * @example
+   * // Keep an acquired product's `{company}-{name}-{env}` convention for Lambda functions
+   * templates: { Function: { pattern: '{company}-{name}-{env}', casing: 'lower' } }
+   */
+  templates?: NamingTemplates;
 }
 
 /**
@@ -49,27 +59,46 @@ export type NamingInput = NamingProvider | NamingConfig;
 export interface ExportNameOptions {
   suffix?: string;
   includeResourceType?: boolean;
+  /**
+   * Include the short region (e.g. `use1`) after the environment so that names of
+   * different regions cannot collide; requires `region` in the naming config
+   */
+  includeShortRegion?: boolean;
 }
 
+/**
+ * How to handle generated names that exceed their maximum length:
+ * - 'truncate': Simply truncate to the maximum length
+ * - 'hash': Truncate and append a short stable hash of the full name for uniqueness
+ * - 'error': Throw an error
+ */
+export type LengthHandling = 'truncate' | 'hash' | 'error';
+
 export interface IAMNamingOptions {
   includeAccountId?: boolean;
+  /** Append the full region (e.g. `-us-east-1`); prefer `includeShortRegion` */
   includeRegion?: boolean;
+  /**
+   * Include the short region (e.g. `use1`) after the environment so that names of
+   * different regions cannot collide; requires `region` in the naming config
+   */
+  includeShortRegion?: boolean;
   prefix?: string;
   /** Maximum length for the IAM role name (default: 64, AWS limit) */
   maxLength?: number;
-  /**
-   * How to handle names that exceed maxLength:
-   * - 'truncate': Simply truncate to maxLength
-   * - 'hash': Truncate and append short hash for uniqueness (default)
-   * - 'error': Throw an error
-   */
-  lengthHandling?: 'truncate' | 'hash' | 'error';
+  /** How to handle names that exceed maxLength (default: 'hash') */
+  lengthHandling?: LengthHandling;
 }
 
 export interface S3NamingOptions {
   purpose: string;
   /** Include a deterministic suffix for global uniqueness (default: true) */
   includeStableSuffix?: boolean;
+  /**
+   * Include the short region (e.g. `use1`) after the environment so that names of
+   * different regions cannot collide; requires `region` in the naming config
+   */
+  includeShortRegion?: boolean;
 }
 
 export type ResourceType =
@@ -86,13 +115,112 @@ export type ResourceType =
   | 'Queue'
   | 'Topic'
   | 'LogGroup'
-  | 'Layer';
+  | 'Layer'
+  | 'EcrRepository'
+  | 'Secret'
+  | 'Parameter'
+  | 'EventBus'
+  | 'EventRule'
+  | 'EcsCluster'
+  | 'EcsService'
+  | 'LoadBalancer'
+  | 'TargetGroup'
+  | 'KmsAlias'
+  | 'DbCluster'
+  | 'SecurityGroup'
+  | 'UserPool'
+  | 'IdentityPool'
+  | 'StateMachine';
+
+/**
+ * Casing applied to the values substituted into a naming template
+ * (literal text in the pattern is kept as written):
+ * - 'preserve': values as configured
+ * - 'lower' / 'upper': lowercase / uppercase values
+ * - 'pascal': first letter of every word uppercase (e.g. 'my-app' → 'My-App')
+ */
+export type NamingCasing = 'preserve' | 'lower' | 'upper' | 'pascal';
+
+/**
+ * Naming template of a resource type
+ */
+export interface NamingTemplate {
+  /**
+   * Name pattern with placeholders: {company}, {project}, {environment} (or {env}),
+   * {envName} (display name such as NonProd), {brand}, {region}, {shortRegion} (e.g. use1),
+   * {accountId} and {name}
+   *
+   * Placeholders without a value (e.g. {brand} for resources without a brand) are left out
+   * together with one adjacent separator. Templates of names generated with
+   * `includeShortRegion` must contain {shortRegion} or {region}.
+   */
+  pattern: string;
+  /** Casing of the substituted values (default: the casing of the generator's own pattern) */
+  casing?: NamingCasing;
+}
+
+/**
+ * Naming templates per resource type; a string is shorthand for `{ pattern }`
+ *
+ * `Stack`, `Export`, `Role`, `Bucket`, `Domain` (the subdomain part) and `Parameter` (SSM
+ * parameter paths, with {name} = `{category}/{name}`) are used by the dedicated
+ * generators; every type is used by `generateResourceName`.
+ */
+export type NamingTemplates = Partial<Record<ResourceType, string | NamingTemplate>>;
 
 export interface ResourceNameOptions {
   brand?: string;
   resourceType?: ResourceType;
+  /**
+   * Include the short region (e.g. `use1`) after the environment so that names of
+   * different regions cannot collide; requires `region` in the naming config
+   */
+  includeShortRegion?: boolean;
+  /**
+   * Maximum length for the name (default and upper bound: the AWS limit of the resource type)
+   */
+  maxLength?: number;
+  /**
+   * How to handle names that exceed the maximum length (default: 'truncate')
+   * Use 'hash' to keep truncated names unique, e.g. for 32-character ALB names
+   */
+  lengthHandling?: LengthHandling;
+}
+
+/**
+ * Naming components recovered from a generated name
+ */
+export interface ParsedName {
+  matched: true;
+  /** Resource type the name was parsed as */
+  resourceType: ResourceType;
+  company?: string;
+  project?: string;
+  /** Environment code (display names in stack names are mapped back, e.g. NonProd → nprd) */
+  environment?: string;
+  brand?: string;
+  region?: string;
+  shortRegion?: string;
+  accountId?: string;
+  /** The {name} part: component of stack names, resource name or bucket purpose */
+  component: string;
 }
 
+/**
+ * Result for names that do not match the naming pattern of their resource type
+ */
+export interface UnmatchedName {
+  matched: false;
+  resourceType: ResourceType;
+  /** Why the name is not recognized */
+  reason: string;
+}
+
+/**
+ * Result of parsing a resource name
+ */
+export type ParseNameResult = ParsedName | UnmatchedName;
+
 /**
  * Options for stack name generation
  */
@@ -110,6 +238,12 @@ export interface StackNameOptions {
    *   Example: CodeIQLabs-Management-Organizations-Stack
    */
   skipEnvironment?: boolean;
+  /**
+   * Include the short region (e.g. `use1`) before the component so that stacks of
+   * different regions cannot collide; requires `region` in the naming config
+   *   Example: CodeIQLabs-SaaS-NonProd-use1-VPC-Stack
+   */
+  includeShortRegion?: boolean;
 }
 
 // ============================================================================
@@ -1,7 +1,11 @@
 const assert = require('node:assert/strict');
+const { execFileSync, spawnSync } = require('node:child_process');
+const fs = require('node:fs');
+const os = require('node:os');
 const path = require('node:path');
 
 const root = require(path.join(__dirname, '..', 'dist', 'index.cjs'));
+const cli = path.join(__dirname, '..', 'dist', 'cli', 'index.cjs');
 const naming = root.naming || root;
 assert.ok(typeof naming === 'object', 'naming utilities should be available');
 
@@ -17,4 +21,1160 @@ assert.ok(
 const { ENV_VALUES } = root;
 assert.ok(Array.isArray(ENV_VALUES), 'ENV_VALUES should be an array');
 
-console.log('✅ AWS Utils config smoke test passed');
+// Test that generated names parse back into the components they were generated from
+const { generateStackName, generateResourceName, parseResourceName, parseStackName } = root;
+const config = { company: 'CodeIQLabs', project: 'SaaS', environment: 'nprd' };
+
+const stack = parseStackName(generateStackName(config, 'VPC'));
+assert.deepEqual(stack, {
+  matched: true,
+  resourceType: 'Stack',
+  company: 'CodeIQLabs',
+  project: 'SaaS',
+  environment: 'nprd',
+  component: 'VPC',
+});
+assert.equal(generateStackName(stack, stack.component), 'CodeIQLabs-SaaS-NonProd-VPC-Stack');
+
+for (const [resourceType, options] of [
+  ['Function', { resourceType: 'Function', brand: 'savvue' }],
+  ['Table', 'Table'],
+  ['LoadBalancer', { resourceType: 'LoadBalancer' }],
+  ['KmsAlias', 'KmsAlias'],
+  ['DbCluster', 'DbCluster'],
+]) {
+  const name = generateResourceName(config, 'orders', options);
+  const parsed = parseResourceName(name, resourceType, config);
+  assert.equal(parsed.matched, true, `${name} should parse as ${resourceType}`);
+  const regenerated = generateResourceName(
+    { project: parsed.project, environment: parsed.environment },
+    parsed.component,
+    { resourceType, brand: parsed.brand },
+  );
+  assert.equal(regenerated, name, `${resourceType} names should round-trip`);
+}
+
+// Resource type rules: length limits, leading characters and reserved prefixes
+for (const [description, nameConfig, name, resourceType, expected] of [
+  ['32-char load balancer', config, 'marketplace-checkout-w', 'LoadBalancer', 32],
+  ['32-char target group', config, 'marketplace-checkout-w', 'TargetGroup', 32],
+  [
+    'DB cluster with a leading digit',
+    { ...config, project: '1saas' },
+    'core',
+    'DbCluster',
+    /must start with a letter/,
+  ],
+  [
+    'parameter with the aws prefix',
+    { ...config, project: 'aws' },
+    'core',
+    'Parameter',
+    /reserved prefix 'aws'/,
+  ],
+  [
+    'parameter with the ssm prefix',
+    { ...config, project: 'SSM' },
+    'core',
+    'Parameter',
+    /reserved prefix 'ssm'/,
+  ],
+]) {
+  if (typeof expected === 'number') {
+    assert.equal(
+      generateResourceName(nameConfig, name, resourceType).length,
+      expected,
+      description,
+    );
+  } else {
+    assert.throws(
+      () => generateResourceName(nameConfig, name, resourceType),
+      expected,
+      description,
+    );
+  }
+}
+
+// Names over the limit are truncated, hashed or rejected, for every resource type
+for (const resourceType of ['LoadBalancer', 'TargetGroup']) {
+  const long = (name, lengthHandling) =>
+    generateResourceName(config, name, { resourceType, lengthHandling });
+  assert.equal(long('marketplace-checkout-webapp'), 'saas-nprd-marketplace-checkout-w');
+  assert.equal(long('marketplace-checkout-webapp', 'truncate'), 'saas-nprd-marketplace-checkout-w');
+  assert.equal(long('marketplace-checkout-webapp', 'hash'), 'saas-nprd-marketplace-c-da23bda3');
+  assert.notEqual(
+    long('marketplace-checkout-webapi', 'hash'),
+    long('marketplace-checkout-webapp', 'hash'),
+    'Hashed names that share a prefix should stay unique',
+  );
+  assert.equal(long('marketplace-checkout-w', 'hash'), 'saas-nprd-marketplace-checkout-w');
+  assert.throws(
+    () => long('marketplace-checkout-webapp', 'error'),
+    new RegExp(
+      `${resourceType} name 'saas-nprd-marketplace-checkout-webapp' exceeds maximum length of 32`,
+    ),
+  );
+}
+
+const templated = {
+  ...config,
+  templates: { Function: { pattern: '{company}-{name}-{env}', casing: 'lower' } },
+};
+const templatedName = generateResourceName(templated, 'orders', 'Function');
+assert.equal(templatedName, 'codeiqlabs-orders-nprd');
+assert.equal(parseResourceName(templatedName, 'Function', templated).component, 'orders');
+for (const [casing, expected] of [
+  ['preserve', 'CodeIQLabs-order-api-nprd'],
+  ['lower', 'codeiqlabs-order-api-nprd'],
+  ['upper', 'CODEIQLABS-ORDER-API-NPRD'],
+  ['pascal', 'CodeIQLabs-Order-Api-Nprd'],
+]) {
+  const cased = {
+    ...config,
+    templates: { Function: { pattern: '{company}-{name}-{env}', casing } },
+  };
+  assert.equal(generateResourceName(cased, 'order-api', 'Function'), expected, casing);
+  assert.equal(
+    new ResourceNaming(cased).resourceName('order-api', { resourceType: 'Function' }),
+    expected,
+    `ResourceNaming should apply the ${casing} template`,
+  );
+}
+
+const regional = { ...config, region: 'eu-west-2' };
+const regionalStack = generateStackName(regional, 'VPC', { includeShortRegion: true });
+assert.equal(regionalStack, 'CodeIQLabs-SaaS-NonProd-euw2-VPC-Stack');
+assert.equal(parseStackName(regionalStack).region, 'eu-west-2');
+assert.equal(
+  generateResourceName(
+    { ...regional, templates: { Function: '{company}-{name}-{shortRegion}-{env}' } },
+    'api',
+    { resourceType: 'Function', includeShortRegion: true },
+  ),
+  'codeiqlabs-api-euw2-nprd',
+);
+assert.throws(
+  () =>
+    generateResourceName(
+      { ...regional, templates: { Function: '{company}-{name}-{env}' } },
+      'api',
+      {
+        resourceType: 'Function',
+        includeShortRegion: true,
+      },
+    ),
+  /has no \{shortRegion\} or \{region\} placeholder/,
+  'Templates without the region should not silently drop includeShortRegion',
+);
+
+assert.equal(parseStackName('MyStack').matched, false, 'Foreign names should not match');
+
+// Every ARN builder round-trips through parseArn in every partition
+const { generateArn, parseArn } = root;
+for (const region of ['us-east-1', 'cn-north-1', 'us-gov-west-1']) {
+  const partition = { 'us-east-1': 'aws', 'cn-north-1': 'aws-cn', 'us-gov-west-1': 'aws-us-gov' }[
+    region
+  ];
+  const arnConfig = { accountId: '123456789012', region };
+  for (const [resourceType, builder, name] of [
+    ['Role', 'generateRoleArn', 'shop-nprd-api'],
+    ['Bucket', 'generateBucketArn', 'shop-nprd-assets'],
+    ['Function', 'generateFunctionArn', 'shop-nprd-api'],
+    ['Secret', 'generateSecretArn', 'shop/nprd/stripe-key'],
+    ['Parameter', 'generateParameterArn', '/shop/nprd/vpc-id'],
+    ['LogGroup', 'generateLogGroupArn', '/aws/lambda/shop-nprd-api'],
+    ['Table', 'generateTableArn', 'shop-nprd-core'],
+    ['Queue', 'generateQueueArn', 'shop-nprd-orders'],
+    ['Topic', 'generateTopicArn', 'shop-nprd-alerts'],
+    ['EventBus', 'generateEventBusArn', 'shop-nprd-events'],
+  ]) {
+    const arn = root[builder](arnConfig, name);
+    assert.equal(arn, generateArn(resourceType, arnConfig, name));
+    const parsed = parseArn(arn);
+    assert.equal(parsed.partition, partition, arn);
+    assert.equal(parsed.resourceType, resourceType, arn);
+    assert.equal(parsed.resourceName, name, arn);
+    assert.equal(parsed.accountId, resourceType === 'Bucket' ? '' : '123456789012', arn);
+    assert.equal(parsed.region, ['Role', 'Bucket'].includes(resourceType) ? '' : region, arn);
+  }
+}
+assert.throws(
+  () =>
+    generateArn('Function', { accountId: '123456789012', region: 'cn-north-1' }, 'api', {
+      partition: 'aws',
+    }),
+  /Region 'cn-north-1' is not in the 'aws' partition/,
+);
+
+// Role paths and the random suffix of secret ARNs are not part of the name
+assert.deepEqual(parseArn('arn:aws:iam::123456789012:role/service-role/ci/shop-nprd-deploy'), {
+  partition: 'aws',
+  service: 'iam',
+  region: '',
+  accountId: '123456789012',
+  resource: 'role/service-role/ci/shop-nprd-deploy',
+  resourceType: 'Role',
+  resourceName: 'shop-nprd-deploy',
+  path: '/service-role/ci/',
+});
+assert.equal(parseArn('arn:aws:iam::123456789012:role/shop-nprd-api').path, '/');
+const secret = parseArn(
+  'arn:aws-us-gov:secretsmanager:us-gov-west-1:123456789012:secret:shop/prod/stripe-key-AbC12f',
+);
+assert.equal(secret.resourceName, 'shop/prod/stripe-key');
+assert.equal(secret.secretSuffix, 'AbC12f');
+
+// Manifest loading tests write their inputs to a temporary directory
+const { loadManifest } = root;
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'aws-utils-test-'));
+const writeFile = (name, content) => {
+  const file = path.join(tmp, name);
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  return file;
+};
+
+const identityCenterManifest = (assignments) => ({
+  naming: { company: 'Acme', project: 'Management' },
+  environments: { mgmt: { accountId: '111111111111', region: 'us-east-1' } },
+  organization: {
+    rootId: 'r-0000',
+    mode: 'create',
+    organizationalUnits: [
+      {
+        key: 'workloads',
+        name: 'Workloads',
+        accounts: ['acct-a', 'acct-b'].map((key) => ({
+          key,
+          name: key,
+          email: `aws+${key}@example.com`,
+          environment: 'nprd',
+          purpose: 'Workloads',
+        })),
+      },
+    ],
+  },
+  identityCenter: {
+    instanceArn: 'arn:aws:sso:::instance/ssoins-0000000000000000',
+    identityStoreId: 'd-0000000000',
+    users: [{ key: 'amir', userId: '11111111-1111-1111-1111-111111111111', userName: 'amir' }],
+    groups: [{ key: 'admins', groupId: '00000000-0000-0000-0000-000000000000' }],
+    permissionSets: [
+      {
+        name: 'Admin',
+        description: 'Full administrative access',
+        managedPolicies: ['arn:aws:iam::aws:policy/AdministratorAccess'],
+      },
+    ],
+    assignments,
+    tags: { Owner: 'Acme', ManagedBy: 'CDK' },
+  },
+});
+
+async function main() {
+  // Compact assignments expand the same way in both layouts
+  const accountFirst = await loadManifest(
+    writeFile(
+      'assignments.yaml',
+      identityCenterManifest({
+        'acct-a': { Admin: ['amir'] },
+        'acct-b': { Admin: { users: ['amir'], groups: ['admins'] } },
+      }),
+    ),
+  );
+  assert.equal(accountFirst.success, true, JSON.stringify(accountFirst.issues));
+  const expanded = [
+    ['USER', 'amir', 'acct-a'],
+    ['USER', 'amir', 'acct-b'],
+    ['GROUP', 'admins', 'acct-b'],
+  ].map(([principalType, principalKey, targetKey]) => ({
+    principalType,
+    principalKey,
+    permissionSetName: 'Admin',
+    targetType: 'AWS_ACCOUNT',
+    targetKey,
+  }));
+  assert.deepEqual(accountFirst.data.identityCenter.assignments, expanded);
+
+  const permissionSetFirst = await loadManifest(
+    writeFile(
+      'assignments-by-permission-set.yaml',
+      identityCenterManifest({
+        byPermissionSet: {
+          Admin: { 'acct-a': ['amir'], 'acct-b': { users: ['amir'], groups: ['admins'] } },
+        },
+      }),
+    ),
+  );
+  assert.equal(permissionSetFirst.success, true, JSON.stringify(permissionSetFirst.issues));
+  assert.deepEqual(permissionSetFirst.data.identityCenter.assignments, expanded);
+
+  // Each assignment carries where it was declared, outside its serialized form
+  const [, , groupAssignment] = permissionSetFirst.data.identityCenter.assignments;
+  assert.deepEqual(groupAssignment.source, {
+    principal: ['byPermissionSet', 'Admin', 'acct-b', 'groups', 0],
+    permissionSet: ['byPermissionSet', 'Admin'],
+    account: ['byPermissionSet', 'Admin', 'acct-b'],
+  });
+  assert.equal(JSON.stringify(groupAssignment).includes('source'), false);
+
+  // Misspelled principal lists and mixed layouts are errors, not empty assignments
+  for (const [name, assignments, expected] of [
+    ['typo', { 'acct-a': { Admin: { user: ['amir'] } } }, /Unrecognized key.*'user'/],
+    ['empty', { 'acct-a': { Admin: {} } }, /must list users and\/or groups/],
+    [
+      'mixed',
+      { 'acct-a': { Admin: ['amir'] }, byPermissionSet: { Admin: { 'acct-b': ['amir'] } } },
+      /'byPermissionSet' cannot be combined with account keys \(acct-a\)/,
+    ],
+  ]) {
+    const result = await loadManifest(
+      writeFile(`assignments-${name}.yaml`, identityCenterManifest(assignments)),
+    );
+    assert.equal(result.success, false, `${name} assignments should be rejected`);
+    assert.match(result.issues.map((issue) => issue.message).join('\n'), expected);
+  }
+
+  // Assignments must reference defined users, permission sets and accounts
+  const dangling = await loadManifest(
+    writeFile(
+      'assignments-dangling.yaml',
+      identityCenterManifest({
+        'acct-a': { Admin: ['amir'], ReadOnly: ['amir'] },
+        'acct-b': { ReadOnly: { groups: ['admins'] } },
+        'acct-c': { Admin: ['bob'] },
+      }),
+    ),
+  );
+  assert.equal(dangling.success, false);
+  assert.deepEqual(
+    dangling.issues.map((issue) => [issue.code, issue.path.join('.')]),
+    [
+      ['unknown_permission_set', 'identityCenter.assignments.acct-a.ReadOnly'],
+      ['unknown_permission_set', 'identityCenter.assignments.acct-b.ReadOnly'],
+      ['unknown_user', 'identityCenter.assignments.acct-c.Admin.0'],
+      ['unknown_account', 'identityCenter.assignments.acct-c'],
+    ],
+  );
+
+  // Every place a dangling key is written is reported, not only the first
+  const danglingByPermissionSet = await loadManifest(
+    writeFile(
+      'assignments-dangling-by-permission-set.yaml',
+      identityCenterManifest({
+        byPermissionSet: {
+          Admin: { 'acct-a': ['amir'], 'acct-c': { users: ['amir'], groups: ['admins'] } },
+          ReadOnly: { 'acct-c': ['amir'] },
+        },
+      }),
+    ),
+  );
+  assert.deepEqual(
+    danglingByPermissionSet.issues.map((issue) => [issue.code, issue.path.join('.')]),
+    [
+      ['unknown_account', 'identityCenter.assignments.byPermissionSet.Admin.acct-c'],
+      ['unknown_permission_set', 'identityCenter.assignments.byPermissionSet.ReadOnly'],
+      ['unknown_account', 'identityCenter.assignments.byPermissionSet.ReadOnly.acct-c'],
+    ],
+  );
+
+  // Manifests are only upgraded when they declare an older schemaVersion
+  const legacy = {
+    naming: { company: 'Acme', project: 'SaaS' },
+    environments: { nprd: { accountId: '222222222222', region: 'us-east-1' } },
+    saasApps: [{ name: 'savvue', domain: 'savvue.com' }],
+  };
+  const unversioned = await loadManifest(writeFile('legacy.yaml', legacy));
+  assert.equal(unversioned.success, true, JSON.stringify(unversioned.issues));
+  assert.deepEqual(unversioned.data.saasApps, legacy.saasApps);
+  assert.equal(unversioned.data.saasEdge, undefined);
+  assert.deepEqual(
+    unversioned.warnings.map((warning) => warning.code),
+    ['legacy_manifest'],
+  );
+
+  const upgraded = await loadManifest(writeFile('legacy-v2.yaml', { schemaVersion: 2, ...legacy }));
+  assert.equal(upgraded.success, true, JSON.stringify(upgraded.issues));
+  assert.equal(upgraded.data.schemaVersion, 3);
+  assert.equal(upgraded.data.saasApps, undefined);
+  assert.deepEqual(
+    upgraded.data.saasEdge.map((entry) => entry.domain),
+    ['savvue.com'],
+  );
+  assert.deepEqual(
+    upgraded.data.saasWorkload.map((entry) => entry.name),
+    ['savvue'],
+  );
+  assert.equal(upgraded.warnings[0].code, 'manifest_upgraded');
+
+  // The simple networking form of schemaVersion 2 is upgraded to the full configuration
+  const simpleNetworking = {
+    naming: { company: 'Acme', project: 'SaaS' },
+    environments: {
+      mgmt: { accountId: '111111111111', region: 'us-east-1' },
+      nprd: { accountId: '222222222222', region: 'eu-west-1' },
+    },
+    networking: { vpc: { cidr: '10.1.0.0/16', maxAzs: 2, natGateways: 1, enableFlowLogs: true } },
+  };
+  const networkingV2 = await loadManifest(
+    writeFile('networking-v2.yaml', { schemaVersion: 2, ...simpleNetworking }),
+  );
+  assert.equal(networkingV2.success, true, JSON.stringify(networkingV2.issues));
+  const { vpc } = networkingV2.data.networking;
+  assert.equal(networkingV2.data.networking.mode, 'create');
+  assert.equal(vpc.region, 'eu-west-1');
+  assert.deepEqual(
+    vpc.subnets.map((subnet) => [subnet.name, subnet.cidr, subnet.availabilityZone]),
+    [
+      ['public-a', '10.1.0.0/20', 'eu-west-1a'],
+      ['private-a', '10.1.16.0/20', 'eu-west-1a'],
+      ['public-b', '10.1.32.0/20', 'eu-west-1b'],
+      ['private-b', '10.1.48.0/20', 'eu-west-1b'],
+    ],
+  );
+  assert.deepEqual(
+    vpc.natGateways.map((gateway) => gateway.subnetName),
+    ['public-a'],
+  );
+  assert.equal(vpc.flowLogs.enabled, true);
+  assert.deepEqual(
+    networkingV2.warnings.map((warning) => [warning.code, warning.path.join('.')]),
+    [['manifest_upgraded', 'networking']],
+  );
+
+  // Without schemaVersion the simple form is reported, not accepted
+  const networkingUnversioned = await loadManifest(
+    writeFile('networking-unversioned.yaml', simpleNetworking),
+  );
+  assert.equal(networkingUnversioned.success, false);
+  assert.deepEqual(
+    networkingUnversioned.issues.map((issue) => [issue.code, issue.path.join('.')]),
+    [
+      ['invalid_type', 'networking.vpc.name'],
+      ['invalid_type', 'networking.vpc.region'],
+      ['invalid_type', 'networking.vpc.subnets'],
+      ['invalid_type', 'networking.vpc.natGateways'],
+      ['legacy_manifest', 'networking'],
+    ],
+  );
+
+  // Full networking, security, compliance and dynamodb sections
+  const sections = await loadManifest(
+    writeFile('sections.yaml', {
+      ...simpleNetworking,
+      networking: { vpc: { ...vpc, flowLogs: undefined } },
+      security: {
+        kmsKeys: [{ name: 'data', description: 'Encrypts application data' }],
+        sessionManager: { idleSessionTimeout: 15 },
+      },
+      compliance: { guardDuty: { eksProtection: false } },
+      dynamodb: { tables: ['core', 'savvue'] },
+    }),
+  );
+  assert.equal(sections.success, true, JSON.stringify(sections.issues));
+  assert.equal(sections.data.networking.vpc.subnets.length, 4);
+  assert.equal(sections.data.security.kmsKeys[0].enableKeyRotation, true);
+  assert.equal(sections.data.security.sessionManager.maxSessionDuration, 60);
+  assert.equal(sections.data.compliance.guardDuty.enabled, true);
+  assert.equal(sections.data.compliance.guardDuty.eksProtection, false);
+  assert.deepEqual(sections.data.dynamodb, {
+    tables: ['core', 'savvue'],
+    pointInTimeRecovery: true,
+    billingMode: 'PAY_PER_REQUEST',
+  });
+
+  // Cross-references resolve against every brand section, including legacy saasApps
+  const withOriginZones = { ...legacy, originZones: { brands: ['savvue', 'savvue.com'] } };
+  for (const upgrade of [true, false]) {
+    const result = await loadManifest(writeFile('brands.yaml', withOriginZones), { upgrade });
+    assert.equal(result.success, true, JSON.stringify(result.issues));
+  }
+  const danglingReferences = await loadManifest(
+    writeFile('dangling.yaml', {
+      ...legacy,
+      originZones: { brands: ['other.com'] },
+      infrastructure: { targetEnvironments: ['nprd', 'prod'] },
+    }),
+  );
+  assert.equal(danglingReferences.success, false);
+  assert.deepEqual(
+    danglingReferences.issues
+      .filter((issue) => issue.severity !== 'warning')
+      .map((issue) => [issue.code, issue.path.join('.')]),
+    [
+      ['unknown_environment', 'infrastructure.targetEnvironments.1'],
+      ['unknown_brand', 'originZones.brands.0'],
+    ],
+  );
+
+  // Brands match names and domains exactly, never the first label of a domain
+  const edgeOnly = await loadManifest(
+    writeFile('edge-brands.yaml', {
+      naming: legacy.naming,
+      environments: legacy.environments,
+      saasEdge: [{ domain: 'savvue.com', distributions: [{ type: 'marketing' }] }],
+      originZones: { brands: ['savvue.com', 'savvue'] },
+    }),
+  );
+  assert.equal(edgeOnly.success, false);
+  assert.deepEqual(
+    edgeOnly.issues.map((issue) => [issue.code, issue.path.join('.'), issue.message]),
+    [
+      [
+        'unknown_brand',
+        'originZones.brands.1',
+        "Brand 'savvue' does not match any saasWorkload, saasEdge or saasApps entry (known: savvue.com)",
+      ],
+    ],
+  );
+
+  // Environment variable expansion: defaults, required messages and escapes
+  const { expandEnvironmentVariables } = root;
+  assert.equal(
+    expandEnvironmentVariables('${REGION:-us-east-1}/${EMPTY:-fallback}/${SET:-unused}', {
+      EMPTY: '',
+      SET: 'eu-west-1',
+    }),
+    'us-east-1/fallback/eu-west-1',
+  );
+  assert.equal(expandEnvironmentVariables('${EMPTY}', { EMPTY: '' }), '');
+  assert.throws(
+    () => expandEnvironmentVariables('name: ${APP:?set APP to the brand name}', {}),
+    /^Error: set APP to the brand name \(environment variable APP is not set\)$/,
+  );
+  assert.throws(
+    () => expandEnvironmentVariables('${EMPTY:?}', { EMPTY: '' }),
+    /^Error: Environment variable EMPTY is required but not set$/,
+  );
+  assert.equal(
+    expandEnvironmentVariables('$${literal} $${APP} ${naming.project}', { APP: 'shop' }),
+    '${literal} ${APP} ${naming.project}',
+  );
+  assert.throws(
+    () => expandEnvironmentVariables('${FIRST} ${SECOND:?second is needed}', {}),
+    /^Error: Environment variable FIRST is required but not set$/,
+  );
+  assert.throws(
+    () =>
+      expandEnvironmentVariables(
+        '${FIRST} ${SECOND:?second is needed}',
+        {},
+        { collectMissing: true },
+      ),
+    {
+      message: [
+        '2 environment variable placeholder(s) could not be expanded:',
+        '  - Environment variable FIRST is required but not set',
+        '  - second is needed (environment variable SECOND is not set)',
+      ].join('\n'),
+    },
+  );
+
+  // Every missing variable of a manifest is reported at its placeholder
+  const missingVariables = await loadManifest(
+    writeFile(
+      'missing-env.yaml',
+      [
+        'naming: { company: Acme, project: SaaS }',
+        'environments:',
+        '  nprd:',
+        '    accountId: "${MISSING_ACCOUNT}"',
+        '    region: "${MISSING_REGION:?set the nprd region}"',
+      ].join('\n'),
+    ),
+    { envVars: {}, collectMissingEnvVars: true },
+  );
+  assert.equal(missingVariables.success, false);
+  assert.deepEqual(
+    missingVariables.issues.map((issue) => [
+      issue.code,
+      issue.location.line,
+      issue.location.column,
+      issue.message,
+    ]),
+    [
+      ['missing_env_var', 4, 17, 'Environment variable MISSING_ACCOUNT is required but not set'],
+      [
+        'missing_env_var',
+        5,
+        14,
+        'set the nprd region (environment variable MISSING_REGION is not set)',
+      ],
+    ],
+  );
+
+  // Dotenv files: .env.<environment> overrides .env, process.env overrides both
+  writeFile('.env', 'TEST_REGION=us-west-2\nTEST_ACCOUNT=111111111111\n');
+  writeFile('.env.nprd', 'TEST_REGION=eu-west-2\nTEST_ACCOUNT=222222222222\n');
+  process.env.TEST_ACCOUNT = '333333333333';
+  const dotenvManifest = writeFile(
+    'dotenv.yaml',
+    [
+      'naming: { company: Acme, project: SaaS }',
+      'environments:',
+      '  nprd: { accountId: "${TEST_ACCOUNT}", region: "${TEST_REGION}" }',
+    ].join('\n'),
+  );
+  const withDotenv = await loadManifest(dotenvManifest, {
+    dotenv: { dir: tmp, environment: 'nprd' },
+  });
+  delete process.env.TEST_ACCOUNT;
+  assert.equal(withDotenv.success, true, JSON.stringify(withDotenv.issues));
+  assert.deepEqual(withDotenv.data.environments.nprd, {
+    accountId: '333333333333',
+    region: 'eu-west-2',
+  });
+  assert.deepEqual(withDotenv.envSources, {
+    TEST_ACCOUNT: { type: 'process' },
+    TEST_REGION: { type: 'dotenv', file: path.join(tmp, '.env.nprd') },
+  });
+  assert.deepEqual(withDotenv.files, [
+    dotenvManifest,
+    path.join(tmp, '.env'),
+    path.join(tmp, '.env.nprd'),
+  ]);
+
+  // Typed environment readers report unset and malformed variables by name
+  const { getIntEnvVar, getBooleanEnvVar, getListEnvVar, loadEnv, EnvIntSchema } = root;
+  process.env.TEST_PORT = ' 8080 ';
+  process.env.TEST_FLAG = 'Yes';
+  process.env.TEST_LIST = 'a, b,,c';
+  assert.equal(getIntEnvVar('TEST_PORT', { min: 1, max: 65535 }), 8080);
+  assert.equal(getBooleanEnvVar('TEST_FLAG'), true);
+  assert.deepEqual(getListEnvVar('TEST_LIST'), ['a', 'b', 'c']);
+  assert.equal(getIntEnvVar('TEST_UNSET_PORT', { default: 3000 }), 3000);
+  assert.throws(
+    () => getIntEnvVar('TEST_UNSET_PORT', { description: 'HTTP port' }),
+    /Missing value for environment variable 'TEST_UNSET_PORT' \(HTTP port\): not set/,
+  );
+  assert.throws(
+    () => getIntEnvVar('TEST_PORT', { max: 1024 }),
+    /Invalid value for environment variable 'TEST_PORT': Expected an integer <= 1024/,
+  );
+  process.env.TEST_REGION = 'us-gov-west-1';
+  assert.equal(root.getRegionFromEnv('TEST_REGION'), 'us-gov-west-1');
+  process.env.TEST_REGION = 'useast1';
+  assert.throws(
+    () => root.getRegionFromEnv('TEST_REGION'),
+    /Invalid value for environment variable 'TEST_REGION': Expected an AWS region such as us-east-1/,
+  );
+  delete process.env.TEST_PORT;
+  delete process.env.TEST_FLAG;
+  delete process.env.TEST_LIST;
+  delete process.env.TEST_REGION;
+
+  // loadEnv masks the values of sensitive variables, by name pattern or when listed
+  const { z } = require('zod');
+  const loadError = (options) => {
+    try {
+      loadEnv(
+        z.object({ API_TOKEN: z.enum(['tok-0']), PIN: z.enum(['0000']), PORT: EnvIntSchema }),
+        { env: { API_TOKEN: 'tok-123', PIN: 'pin-456' }, ...options },
+      );
+    } catch (error) {
+      return error.message;
+    }
+    assert.fail('loadEnv should throw');
+  };
+  const unmasked = loadError({});
+  assert.match(unmasked, /3 environment variable\(s\) missing or invalid/);
+  assert.match(unmasked, /PORT: not set/);
+  assert.doesNotMatch(unmasked, /tok-123/);
+  assert.match(unmasked, /PIN: .*received 'pin-456'/);
+  const masked = loadError({ sensitive: ['PIN'] });
+  assert.doesNotMatch(masked, /pin-456/);
+  assert.deepEqual(
+    loadEnv(
+      z.object({
+        PORTS: root.envListSchema(EnvIntSchema, ';'),
+        REGIONS: root.envListSchema(root.EnvRegionSchema),
+      }),
+      { env: { PORTS: '80; 443', REGIONS: 'us-east-1, eu-west-2' } },
+    ),
+    { PORTS: [80, 443], REGIONS: ['us-east-1', 'eu-west-2'] },
+  );
+
+  // $include and overlays: included documents, then local keys, then overlays (last wins)
+  writeFile(
+    'shared.yaml',
+    [
+      'naming: { company: Acme, project: SaaS }',
+      'environments:',
+      '  mgmt: { accountId: "111111111111", region: us-east-1 }',
+    ].join('\n'),
+  );
+  const composedManifest = writeFile(
+    'composed.yaml',
+    [
+      '$include: ./shared.yaml',
+      'environments:',
+      '  nprd: { accountId: "222222222222", region: us-east-1 }',
+    ].join('\n'),
+  );
+  const composedOverlay = writeFile(
+    'composed.nprd.yaml',
+    'environments:\n  nprd: { region: eu-west-2 }\n',
+  );
+  const composed = await loadManifest(composedManifest, { overlays: [composedOverlay] });
+  assert.equal(composed.success, true, JSON.stringify(composed.issues));
+  assert.deepEqual(composed.data.naming, { company: 'Acme', project: 'SaaS' });
+  assert.deepEqual(composed.data.environments, {
+    mgmt: { accountId: '111111111111', region: 'us-east-1' },
+    nprd: { accountId: '222222222222', region: 'eu-west-2' },
+  });
+  assert.deepEqual(composed.files, [
+    composedManifest,
+    path.join(tmp, 'shared.yaml'),
+    composedOverlay,
+  ]);
+
+  // Issues point at the file, line and column that defines the offending value
+  const located = await loadManifest(composedManifest, {
+    overlays: [writeFile('located.yaml', 'environments:\n  nprd:\n    accountId: "12345"\n')],
+  });
+  assert.equal(located.success, false);
+  assert.deepEqual(
+    located.issues.map((issue) => [issue.path.join('.'), issue.code, issue.location]),
+    [
+      [
+        'environments.nprd.accountId',
+        'invalid_string',
+        { file: path.join(tmp, 'located.yaml'), line: 3, column: 16 },
+      ],
+    ],
+  );
+  assert.match(located.issues[0].snippet, /accountId: "12345"/);
+
+  // Positions and code frames refer to the file as written, before ${VAR} expansion
+  const expandedLine = await loadManifest(
+    writeFile(
+      'expanded.yaml',
+      [
+        'naming: { company: "${COMPANY}", project: SaaS }',
+        'environments:',
+        '  nprd: { region: "${REGION}", accountId: "${ACCOUNT_ID}" }',
+      ].join('\n'),
+    ),
+    { envVars: { COMPANY: 'A Company Name', ACCOUNT_ID: '12345', REGION: 'eu-central-1' } },
+  );
+  assert.equal(expandedLine.success, false);
+  assert.deepEqual(expandedLine.issues[0].location, {
+    file: path.join(tmp, 'expanded.yaml'),
+    line: 3,
+    column: 43,
+  });
+  assert.equal(
+    expandedLine.issues[0].snippet.split('\n').slice(-2).join('\n'),
+    [
+      '> 3 |   nprd: { region: "${REGION}", accountId: "${ACCOUNT_ID}" }',
+      `    | ${' '.repeat(42)}^`,
+    ].join('\n'),
+  );
+
+  // Values are parsed with js-yaml, so merge keys apply
+  const merged = await loadManifest(
+    writeFile(
+      'merge-keys.yaml',
+      [
+        'naming: { company: Acme, project: SaaS }',
+        'environments:',
+        '  nprd: &nprd { accountId: "222222222222", region: us-east-1 }',
+        '  prod:',
+        '    <<: *nprd',
+        '    accountId: "333333333333"',
+      ].join('\n'),
+    ),
+  );
+  assert.equal(merged.success, true, JSON.stringify(merged.issues));
+  assert.deepEqual(merged.data.environments.prod, {
+    accountId: '333333333333',
+    region: 'us-east-1',
+  });
+
+  // Deployment plan: management stacks in mgmt, workload stacks in every other environment
+  const { planDeployment } = root;
+  const workloadManifest = {
+    naming: { company: 'Acme', project: 'Shop' },
+    environments: {
+      mgmt: { accountId: '111111111111', region: 'us-east-1' },
+      nprd: { accountId: '222222222222', region: 'eu-west-2' },
+      prod: { accountId: '333333333333', region: 'eu-west-2' },
+    },
+    saasEdge: [{ domain: 'shop.com', distributions: [{ type: 'webapp' }] }],
+    saasWorkload: [{ name: 'shop', domain: 'shop.com', webapp: true }],
+  };
+  const workload = await loadManifest(writeFile('workload.yaml', workloadManifest));
+  assert.equal(workload.success, true, JSON.stringify(workload.issues));
+  assert.deepEqual(
+    planDeployment(workload.data).environments.map((env) => [
+      env.environment,
+      env.stacks.map((stack) => [stack.stackName, stack.dependsOn]),
+    ]),
+    [
+      ['mgmt', [['Acme-Shop-Management-SaasEdge-Stack', []]]],
+      ['nprd', [['Acme-Shop-NonProd-Ecs-Stack', []]]],
+      ['prod', [['Acme-Shop-Prod-Ecs-Stack', []]]],
+    ],
+  );
+
+  // Without management sections every environment is a workload environment, and
+  // databases are only planned when the aurora section enables them
+  const workloadOnly = await loadManifest(
+    writeFile('workload-only.yaml', {
+      naming: workloadManifest.naming,
+      environments: {
+        nprd: workloadManifest.environments.nprd,
+        prod: workloadManifest.environments.prod,
+      },
+      aurora: { enabled: true },
+      saasWorkload: [{ name: 'shop', domain: 'shop.com', webapp: true, lambdaApi: true }],
+    }),
+  );
+  assert.equal(workloadOnly.success, true, JSON.stringify(workloadOnly.issues));
+  assert.deepEqual(
+    planDeployment(workloadOnly.data).environments.map((env) => [
+      env.environment,
+      env.stacks.map((stack) => [stack.component, stack.dependsOn]),
+    ]),
+    ['nprd', 'prod'].map((environment) => [
+      environment,
+      [
+        ['Aurora', []],
+        ['Ecs', []],
+        ['Lambda', [`${environment}/Aurora`]],
+      ],
+    ]),
+  );
+
+  // Plan output formats, with quotes in labels escaped for Mermaid and Graphviz
+  const quotedManifest = writeFile('plan-quoted.yaml', {
+    ...identityCenterManifest({ 'acct-a': { Admin: ['amir'] } }),
+    naming: { company: 'Acme"s', project: 'Core' },
+  });
+  const plan = (format) =>
+    execFileSync(process.execPath, [cli, 'plan', quotedManifest, '--format', format], {
+      encoding: 'utf8',
+    }).trimEnd();
+  assert.deepEqual(
+    JSON.parse(plan('json')).stacks.map((stack) => [stack.id, stack.dependsOn]),
+    [
+      ['mgmt/Organizations', []],
+      ['mgmt/IdentityCenter', ['mgmt/Organizations']],
+    ],
+  );
+  assert.equal(
+    plan('table'),
+    [
+      'ENVIRONMENT  ACCOUNT       REGION     STACK                                        DEPENDS ON',
+      'mgmt         111111111111  us-east-1  Acme"s-Core-Management-Organizations-Stack   -',
+      'mgmt         111111111111  us-east-1  Acme"s-Core-Management-IdentityCenter-Stack  mgmt/Organizations',
+    ].join('\n'),
+  );
+  assert.equal(
+    plan('mermaid'),
+    [
+      'flowchart TD',
+      '  subgraph mgmt["mgmt (111111111111 / us-east-1)"]',
+      '    mgmt_Organizations["Acme#quot;s-Core-Management-Organizations-Stack"]',
+      '    mgmt_IdentityCenter["Acme#quot;s-Core-Management-IdentityCenter-Stack"]',
+      '  end',
+      '  mgmt_Organizations --> mgmt_IdentityCenter',
+    ].join('\n'),
+  );
+  assert.equal(
+    plan('dot'),
+    [
+      'digraph deployment {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  subgraph "cluster_mgmt" {',
+      '    label="mgmt (111111111111 / us-east-1)";',
+      '    "mgmt/Organizations" [label="Acme\\"s-Core-Management-Organizations-Stack"];',
+      '    "mgmt/IdentityCenter" [label="Acme\\"s-Core-Management-IdentityCenter-Stack"];',
+      '  }',
+      '  "mgmt/Organizations" -> "mgmt/IdentityCenter";',
+      '}',
+    ].join('\n'),
+  );
+
+  // Every init preset scaffolds a manifest that loads without warnings and plans stacks
+  for (const [preset, stacks] of [
+    ['management', ['mgmt/Organizations', 'mgmt/IdentityCenter']],
+    [
+      'customization',
+      [
+        'mgmt/Domains',
+        'mgmt/SaasEdge',
+        ...['nprd', 'prod'].flatMap((env) => [`${env}/Vpc`, `${env}/Alb`, `${env}/VpcOrigin`]),
+      ],
+    ],
+    [
+      'saas-workload',
+      ['nprd', 'prod'].flatMap((env) => [`${env}/Storage`, `${env}/Ecs`, `${env}/Lambda`]),
+    ],
+  ]) {
+    const file = path.join(tmp, 'presets', preset, 'manifest.yaml');
+    execFileSync(
+      process.execPath,
+      [cli, 'init', file, '--preset', preset, '--domain', 'shop.com'],
+      {
+        encoding: 'utf8',
+      },
+    );
+    const scaffolded = await loadManifest(file);
+    assert.equal(scaffolded.success, true, `${preset}: ${JSON.stringify(scaffolded.issues)}`);
+    assert.deepEqual(scaffolded.warnings ?? [], [], preset);
+    assert.deepEqual(
+      planDeployment(scaffolded.data).stacks.map((stack) => stack.id),
+      stacks,
+      preset,
+    );
+  }
+
+  // Manifest diff: stack changes first, then environment changes
+  const { diffManifests } = root;
+  const withoutProd = await loadManifest(
+    writeFile('workload-before.yaml', {
+      ...workloadManifest,
+      environments: {
+        mgmt: workloadManifest.environments.mgmt,
+        nprd: workloadManifest.environments.nprd,
+      },
+    }),
+  );
+  assert.equal(withoutProd.success, true, JSON.stringify(withoutProd.issues));
+  assert.deepEqual(
+    diffManifests(withoutProd.data, workload.data).map((change) => [
+      change.kind,
+      change.category,
+      change.message,
+    ]),
+    [
+      [
+        'added',
+        'stack',
+        "Stack 'Acme-Shop-Prod-Ecs-Stack' will be created in prod (333333333333 / eu-west-2)",
+      ],
+      ['added', 'environment', "Environment 'prod' added (333333333333 / eu-west-2)"],
+    ],
+  );
+
+  // Manifest references resolve after composition; cycles are reported where they start
+  const referenced = await loadManifest(
+    writeFile(
+      'references.yaml',
+      [
+        'naming: { company: Acme, project: "${naming.company}-shop" }',
+        'environments:',
+        '  nprd: { accountId: "222222222222", region: us-east-1 }',
+        '  prod: { accountId: "${environments.nprd.accountId}", region: us-east-1 }',
+      ].join('\n'),
+    ),
+  );
+  assert.equal(referenced.success, true, JSON.stringify(referenced.issues));
+  assert.equal(referenced.data.naming.project, 'Acme-shop');
+  assert.equal(referenced.data.environments.prod.accountId, '222222222222');
+
+  const cyclic = await loadManifest(
+    writeFile(
+      'reference-cycle.yaml',
+      [
+        'naming: { company: "${naming.project}", project: "${naming.company}" }',
+        'environments:',
+        '  nprd: { accountId: "222222222222", region: us-east-1 }',
+      ].join('\n'),
+    ),
+  );
+  assert.equal(cyclic.success, false);
+  assert.deepEqual(
+    cyclic.issues.map((issue) => [issue.code, issue.path.join('.'), issue.message]),
+    [
+      [
+        'reference_cycle',
+        'naming.project',
+        'Reference cycle: naming.company -> naming.project -> naming.company',
+      ],
+    ],
+  );
+
+  // Migration rewrites saasApps only: every other line is kept byte for byte
+  const beforeApps = [
+    '# Manifest',
+    'naming: { company: Acme, project: SaaS }   # padded flow map',
+    'environments:',
+    '  nprd: { accountId: "222222222222", region: us-east-1 }',
+    'originZones:',
+    '  brands:',
+    '  - shop',
+    '',
+    '# Legacy brands',
+    '',
+  ].join('\n');
+  const afterApps = ['', 'tags: [ a, b ]    # aligned comment', ''].join('\n');
+  const legacyManifest = writeFile(
+    'migrate.yaml',
+    [beforeApps, 'saasApps:', '- name: shop   # main brand', '  domain: shop.com', afterApps].join(
+      '\n',
+    ),
+  );
+  const migrated = execFileSync(process.execPath, [cli, 'migrate', legacyManifest], {
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  assert.equal(
+    migrated,
+    [
+      beforeApps,
+      'saasEdge:',
+      '- domain: shop.com',
+      '  distributions:',
+      '  - type: marketing',
+      '  - type: webapp',
+      'saasWorkload:',
+      '- name: shop # main brand',
+      '  domain: shop.com',
+      '  webapp: true',
+      '  marketingS3: true',
+      afterApps,
+    ].join('\n'),
+  );
+
+  // Environment resolution: manifest defaults, then environment defaults, then per-item overrides
+  const { resolveEnvironmentConfig } = root;
+  const resolvable = await loadManifest(
+    writeFile('resolve.yaml', {
+      naming: { company: 'Acme', project: 'Shop' },
+      environments: {
+        nprd: {
+          accountId: '222222222222',
+          region: 'us-east-1',
+          config: {
+            defaults: { lambda: { memorySize: 512 } },
+            saasWorkload: {
+              shop: {
+                ecs: { webapp: { desiredCount: 2 } },
+                scheduledJobs: { sync: { enabled: false } },
+              },
+            },
+          },
+        },
+        prod: { accountId: '333333333333', region: 'us-east-1' },
+      },
+      defaults: { lambda: { timeout: 60 } },
+      aurora: { enabled: true, databases: ['shop'] },
+      saasWorkload: [
+        {
+          name: 'shop',
+          webapp: true,
+          scheduledJobs: [{ name: 'sync', description: 'Sync', schedule: 'rate(1 hour)' }],
+        },
+        { name: 'blog', webapp: true, lambdaApi: true },
+      ],
+    }),
+  );
+  assert.equal(resolvable.success, true, JSON.stringify(resolvable.issues));
+  const resolved = Object.fromEntries(
+    ['nprd', 'prod'].map((environment) => {
+      const { saasWorkload } = resolveEnvironmentConfig(resolvable.data, environment);
+      const [shop, blog] = saasWorkload;
+      return [
+        environment,
+        {
+          desiredCount: shop.ecs.webapp.desiredCount,
+          job: shop.scheduledJobs[0],
+          databases: [Boolean(shop.aurora), Boolean(blog.aurora)],
+          blogLambda: blog.lambda,
+        },
+      ];
+    }),
+  );
+  const job = { name: 'sync', description: 'Sync', schedule: 'rate(1 hour)' };
+  assert.deepEqual(resolved, {
+    nprd: {
+      desiredCount: 2,
+      job: { ...job, memorySize: 512, timeout: 60, enabled: false },
+      databases: [true, false],
+      blogLambda: { memorySize: 512, timeout: 60 },
+    },
+    prod: {
+      desiredCount: 1,
+      job: { ...job, memorySize: 1024, timeout: 60, enabled: true },
+      databases: [true, false],
+      blogLambda: { memorySize: 1024, timeout: 60 },
+    },
+  });
+  assert.throws(
+    () => resolveEnvironmentConfig(resolvable.data, 'qa'),
+    /Environment 'qa' is not defined in the manifest\. Available environments: nprd, prod/,
+  );
+
+  // validate reports issues as SARIF, JSON or text and exits with code 1
+  writeFile(
+    'invalid.yaml',
+    [
+      'naming: { company: Acme, project: SaaS }',
+      'environments:',
+      '  nprd: { accountId: "12345", region: us-east-1 }',
+    ].join('\n'),
+  );
+  const validate = (format) =>
+    spawnSync(process.execPath, [cli, 'validate', 'invalid.yaml', '--format', format], {
+      cwd: tmp,
+      encoding: 'utf-8',
+    });
+  const sarif = validate('sarif');
+  assert.equal(sarif.status, 1);
+  const sarifLog = JSON.parse(sarif.stdout);
+  assert.equal(sarifLog.version, '2.1.0');
+  assert.equal(sarifLog.runs.length, 1);
+  assert.deepEqual(sarifLog.runs[0].tool.driver.rules, [
+    { id: 'invalid_string', shortDescription: { text: 'invalid_string' } },
+  ]);
+  assert.deepEqual(sarifLog.runs[0].results, [
+    {
+      ruleId: 'invalid_string',
+      level: 'error',
+      message: {
+        text: 'AWS Account ID must be exactly 12 digits (environments.nprd.accountId)',
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'invalid.yaml' },
+            region: { startLine: 3, startColumn: 22 },
+          },
+        },
+      ],
+    },
+  ]);
+  const json = JSON.parse(validate('json').stdout);
+  assert.equal(json.valid, false);
+  assert.deepEqual(
+    json.reports.map((report) => [report.filePath, report.valid, report.errors.length]),
+    [['invalid.yaml', false, 1]],
+  );
+  const pretty = validate('pretty');
+  assert.equal(pretty.status, 1);
+  assert.match(pretty.stdout, /1 error\(s\), 0 warning\(s\) in 1 file\(s\)\n$/);
+
+  // initializeApp sends verbose issues to the logger option, and nothing when not verbose
+  const logged = [];
+  const initialized = await root.initializeApp(path.join(tmp, 'invalid.yaml'), {
+    logger: (message) => logged.push(message),
+  });
+  assert.equal(initialized.success, false);
+  assert.equal(logged.length, 1);
+  assert.match(logged[0], /invalid\.yaml:3:22/);
+  await root.initializeApp(path.join(tmp, 'invalid.yaml'), {
+    verbose: false,
+    logger: (message) => logged.push(message),
+  });
+  assert.equal(logged.length, 1);
+}
+
+main()
+  .then(() => console.log('✅ AWS Utils config smoke test passed'))
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => fs.rmSync(tmp, { recursive: true, force: true }));